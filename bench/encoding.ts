@@ -0,0 +1,49 @@
+// Throughput of the payload block encoding. Run with `bun run bench`.
+import { type AlphabetProfile, base85Decode, base85Encode } from '../src/encoding';
+
+const SIZES: [string, number][] = [
+  ['1 KB', 1024],
+  ['100 KB', 100 * 1024],
+  ['10 MB', 10 * 1024 * 1024],
+];
+
+// 'default' uses 4-byte blocks, 'chat-safe' the 6-byte blocks of small alphabets
+const PROFILES: AlphabetProfile[] = ['default', 'chat-safe'];
+
+// Compressed data looks random, so random bytes are the realistic input
+function randomBytes(length: number): Uint8Array {
+  const bytes = new Uint8Array(length);
+  for (let i = 0; i < length; i += 65536) {
+    crypto.getRandomValues(bytes.subarray(i, i + 65536));
+  }
+  return bytes;
+}
+
+// Repeats `run` for at least minMs after a warm-up and returns MB/s of input
+function measure(bytes: number, run: () => unknown, minMs = 500): number {
+  for (let i = 0; i < 3; i++) run();
+  let iterations = 0;
+  const start = performance.now();
+  let elapsed = 0;
+  while (elapsed < minMs || iterations < 3) {
+    run();
+    iterations++;
+    elapsed = performance.now() - start;
+  }
+  return (bytes * iterations) / (elapsed / 1000) / (1024 * 1024);
+}
+
+const rows = [];
+for (const profile of PROFILES) {
+  for (const [label, size] of SIZES) {
+    const bytes = randomBytes(size);
+    const text = base85Encode(bytes, profile);
+    rows.push({
+      profile,
+      input: label,
+      'encode MB/s': measure(size, () => base85Encode(bytes, profile)).toFixed(1),
+      'decode MB/s': measure(size, () => base85Decode(text, profile)).toFixed(1),
+    });
+  }
+}
+console.table(rows);
@@ -1,14 +1,19 @@
-async function bundle() {
+// ESM for browsers and bundlers, CommonJS for require()
+async function bundle(format: 'esm' | 'cjs') {
   return await Bun.build({
     entrypoints: ['./src/index.ts'],
     outdir: './dist',
+    naming: format === 'cjs' ? '[dir]/[name].cjs' : '[dir]/[name].js',
+    format,
     minify: false,
     sourcemap: "external",
     target: "browser",
   });
 }
 
-const result = await bundle();
-result?.logs.forEach((log, index) => console.log(index, log));
+for (const format of ['esm', 'cjs'] as const) {
+  const result = await bundle(format);
+  result?.logs.forEach((log, index) => console.log(index, log));
+}
 
 export { }
@@ -1,9 +1,21 @@
 import Bao from "baojs";
 import serveStatic from "serve-static-bun";
+import { createRenderHandler } from "compress-to-url";
 
 const app = new Bao();
 
-app.get("/*any", serveStatic("/", { middlewareMode: "bao" }));
+// Shared links render the page; the editor keeps ?edit=1 and errors come back to it
+const render = createRenderHandler({ editorUrl: "/?edit=1" });
+const editor = serveStatic("/", { middlewareMode: "bao" });
+
+app.get("/u/*payload", async (ctx) => ctx.sendRaw(await render(ctx.req)));
+app.get("/*any", async (ctx) => {
+  const { searchParams } = new URL(ctx.req.url);
+  if (searchParams.has("u") && !searchParams.has("edit")) {
+    return ctx.sendRaw(await render(ctx.req));
+  }
+  return editor(ctx);
+});
 
 const server = app.listen({ port: 3000 });
 console.log(`Listening on http://localhost:${server.port}`);
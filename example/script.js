@@ -15,7 +15,7 @@ const encodeAsYouType = debounce(async (code) => {
     const result = await compressToUrl(code, {
       inputType: "string",
       mimeType: "text/html",
-      normalizeWhitespace: false,
+      minify: false,
     });
     const urlField = document.querySelector("#url");
     urlField.value = result.payload;
@@ -1,11 +1,13 @@
 /// <reference lib="dom" />
 /// <reference lib="dom.iterable" />
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import ErrorBanner from './ErrorBanner';
 import InstructionsModal from './InstructionsModal';
+import LintPanel from './LintPanel';
 import RedirectDialog from './RedirectDialog';
 import { MetaFields, ActiveFields } from './types';
+import type { LintIssue } from 'compress-to-url';
 import {
   debounce,
   compressCode,
@@ -14,7 +16,7 @@ import {
   socialMetadataTemplate,
   jsonLdTemplate,
 } from './utils';
-import { decompressFromUrl } from '.';
+import { compressTemplate, decompressFromUrl, lintSocialMetadata, readHeadMetadata, renderTemplate, updateHeadMetadata, buildShareUrl, parseShareUrl, REDIRECT_TEMPLATE_ID } from '.';
 
 const encodingCache = new Map<string, string>();
 
@@ -43,9 +45,8 @@ export default function App() {
       const payload = await compressCode(code, encodingCache);
       setUrlOutput(payload);
       const url = new URL(window.location.href);
-      url.searchParams.set('u', payload);
       url.searchParams.set('edit', '1');
-      window.history.replaceState({}, document.title, url.toString());
+      window.history.replaceState({}, document.title, buildShareUrl(url, payload));
       setError(null);
       setShowShort("");
     } catch (err: any) {
@@ -85,68 +86,48 @@ ${htmlInput.trim() || '<h1>Your Content Here</h1>'}
     }
   };
 
+  // Fields go to every tag that holds them, escaped, and the rest of the page
+  // stays as typed. A page without social tags gets the full set.
   const updateHtmlFromFields = (fields: MetaFields) => {
-    let lines = htmlInput.split('\n');
-    const headIndex = lines.findIndex(line => line.trim().startsWith('<head>'));
-    const hasJsonLd = lines.some(line => line.includes('application/ld+json'));
-
-    if (hasJsonLd) {
-      const jsonLdIndex = lines.findIndex(line => line.includes('application/ld+json'));
-      const jsonLdEndIndex = lines.slice(jsonLdIndex).findIndex(line => line.includes('</script>')) + jsonLdIndex;
-      lines.splice(jsonLdIndex, jsonLdEndIndex - jsonLdIndex + 1);
+    const current = readHeadMetadata(htmlInput);
+    const values: Record<string, string> = {
+      'og:title': fields.title,
+      'twitter:title': fields.title,
+      'og:description': fields.description,
+      'twitter:description': fields.description,
+      description: fields.description,
+      'og:image': fields.image_url,
+      'twitter:image': fields.image_url,
+      'og:url': fields.url,
+    };
+    const hasSocialTags = Object.keys(current.meta).some(name => name.startsWith('og:') || name.startsWith('twitter:'));
+    const meta: Record<string, string> = {};
+    for (const [name, value] of Object.entries(values)) {
+      if (name in current.meta || (!hasSocialTags && value && name !== 'description')) meta[name] = value;
     }
-
-    if (headIndex === -1) {
-      const newHtml = `<!DOCTYPE html>
-<html lang="en">
-<head>
-  <title>${fields.title}</title>
-${fields.description ? `  <meta property="og:description" content="${fields.description}">\n  <meta name="twitter:description" content="${fields.description}">` : ''}
-${fields.image_url ? `  <meta property="og:image" content="${fields.image_url}">\n  <meta name="twitter:image" content="${fields.image_url}">` : ''}
-${fields.url ? `  <meta property="og:url" content="${fields.url}">` : ''}
-  <meta property="og:type" content="website">
-  <meta name="twitter:card" content="summary_large_image">
-${hasJsonLd ? `  <script type="application/ld+json">
-    {
-      "@context": "http://schema.org",
-      "@type": "WebPage",
-      "name": "${fields.title}",
-      "description": "${fields.description}",
-      "image": "${fields.image_url}",
-      "url": "${fields.url}"
+    if (!hasSocialTags) {
+      meta['og:type'] = 'website';
+      meta['twitter:card'] = 'summary_large_image';
     }
-  </script>` : ''}
-</head>
-<body>
-${htmlInput.trim() || '<h1>Your Content Here</h1>'}
-</body>
-</html>`;
-      setHtmlInput(newHtml);
-      setActiveFields(updateActiveFields(newHtml));
-      encodeAsYouType(newHtml);
-    } else {
-      lines = lines.map(line => {
-        if (line.match(/<title>/i)) return `  <title>${fields.title}</title>`;
-        if (line.match(/og:title/i)) return `  <meta property="og:title" content="${fields.title}">`;
-        if (line.match(/twitter:title/i)) return `  <meta name="twitter:title" content="${fields.title}">`;
-        if (fields.description && line.match(/og:description/i)) return `  <meta property="og:description" content="${fields.description}">`;
-        if (fields.description && line.match(/twitter:description/i)) return `  <meta name="twitter:description" content="${fields.description}">`;
-        if (fields.image_url && line.match(/og:image/i)) return `  <meta property="og:image" content="${fields.image_url}">`;
-        if (fields.image_url && line.match(/twitter:image/i)) return `  <meta name="twitter:image" content="${fields.image_url}">`;
-        if (fields.url && line.match(/og:url/i)) return `  <meta property="og:url" content="${fields.url}">`;
-        return line;
-      });
+    const jsonLd = current.jsonLd.length
+      ? { name: fields.title, description: fields.description, image: fields.image_url, url: fields.url }
+      : undefined;
 
-      if (hasJsonLd) {
-        const insertIndex = lines.slice(headIndex + 1).findIndex(line => !line.trim().startsWith('<meta') && !line.trim().startsWith('<title')) + headIndex + 1 || headIndex + 1;
-        lines.splice(insertIndex, 0, ...jsonLdTemplate().split('\n').map(line => `  ${line.trim()}`));
-      }
+    const newHtml = updateHeadMetadata(htmlInput, { title: fields.title, meta, jsonLd });
+    setHtmlInput(newHtml);
+    setActiveFields(updateActiveFields(newHtml));
+    encodeAsYouType(newHtml);
+  };
 
-      const newHtml = lines.join('\n');
-      setHtmlInput(newHtml);
-      setActiveFields(updateActiveFields(newHtml));
-      encodeAsYouType(newHtml);
-    }
+  const lintIssues = useMemo(() => lintSocialMetadata(htmlInput), [htmlInput]);
+
+  const applyLintFix = (issue: LintIssue) => {
+    if (!issue.fix) return;
+    const newHtml = updateHeadMetadata(htmlInput, issue.fix);
+    setHtmlInput(newHtml);
+    setMetaFields(parseMetaFields(newHtml));
+    setActiveFields(updateActiveFields(newHtml));
+    encodeAsYouType(newHtml);
   };
 
   const handleInputChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
@@ -163,14 +144,9 @@ ${htmlInput.trim() || '<h1>Your Content Here</h1>'}
     updateHtmlFromFields(newFields);
   };
 
-  const generateRedirectPage = ({
-    redirectUrl,
-    title,
-    description,
-    image,
-    url,
-    includeJsonLd,
-  }: {
+  // Redirect cards travel as the redirect template id plus their fields, which
+  // the library expands back into this page on decode
+  const generateRedirectPage = async (fields: {
     redirectUrl: string;
     title: string;
     description: string;
@@ -178,55 +154,33 @@ ${htmlInput.trim() || '<h1>Your Content Here</h1>'}
     url: string;
     includeJsonLd: boolean;
   }) => {
-    const body = image ? `<div class="container">
-    <a href="${redirectUrl}"><img src="${image}" alt="${title}"></a>
-  </div>` : `<a href="${redirectUrl}">${title}</a>`;
-    const newHtml = `<!DOCTYPE html>
-<html lang="en">
-<head>
-  <meta charset="UTF-8">
-  <meta http-equiv="refresh" content="1;url=${redirectUrl}">
-  ${title ? `<title>${title}</title>` : ''}
-  ${title ? `<meta property="og:title" content="${title}">` : ''}
-  ${title ? `<meta name="twitter:title" content="${title}">` : ''}
-  ${description ? `<meta property="og:description" content="${description}">` : ''}
-  ${description ? `<meta name="twitter:description" content="${description}">` : ''}
-  ${image ? `<meta property="og:image" content="${image}">` : ''}
-  ${image ? `<meta name="twitter:image" content="${image}">` : ''}
-  ${url ? `<meta property="og:url" content="${url}">` : ''}
-  <meta property="og:type" content="website">
-  <meta name="twitter:card" content="summary_large_image">
-  ${includeJsonLd && title ? jsonLdTemplate()
-      .replace('[Your Title]', title)
-      .replace('[Your Description]', description)
-      .replace('[Your Image URL]', image)
-      .replace('[Your URL]', url) : ''}
-  <style>
-  .container {
-    display: flex;
-    justify-content: center;
-    align-items: center;
-    height: 100vh;
-  }
-  </style>
-</head>
-<body>${body}</body>
-</html>`;
+    const newHtml = renderTemplate(REDIRECT_TEMPLATE_ID, fields);
     setHtmlInput(newHtml);
     setMetaFields(parseMetaFields(newHtml));
     setActiveFields(updateActiveFields(newHtml));
-    encodeAsYouType(newHtml);
+    try {
+      const { payload } = await compressTemplate(REDIRECT_TEMPLATE_ID, fields);
+      setUrlOutput(payload);
+      const url = new URL(window.location.href);
+      url.searchParams.set('edit', '1');
+      window.history.replaceState({}, document.title, buildShareUrl(url, payload));
+      setError(null);
+      setShowShort("");
+    } catch (err: any) {
+      setError(`Error compressing: ${err.message}`);
+    }
   };
 
   useEffect(() => {
     const urlParams = new URLSearchParams(window.location.search);
-    const encodedHtml = urlParams.get('u');
+    const shared = parseShareUrl(window.location.href);
+    const encodedHtml = shared?.payload;
     const errorParam = urlParams.get('error');
 
-    if (errorParam) setUrlError(decodeURIComponent(errorParam));
+    if (errorParam) setUrlError(errorParam);
     if (encodedHtml) {
       setUrlOutput(encodedHtml);
-      decompressFromUrl(encodedHtml).then(html => setHtmlInput(html.data.toString()));
+      decompressFromUrl(encodedHtml, { decrypt: shared?.key }).then(html => setHtmlInput(html.data.toString()));
       // No decompression here; editor starts with empty textarea or DEFAULT_HTML
     } else if ((window as any).DEFAULT_HTML) {
       const defaultHtml = (window as any).DEFAULT_HTML;
@@ -249,9 +203,7 @@ ${htmlInput.trim() || '<h1>Your Content Here</h1>'}
   const shareLink = useCallback(() => {
     const url = new URL(window.location.origin);
     url.pathname = '/';
-    url.searchParams.set('u', urlOutput);
-    url.searchParams.delete('edit');
-    return url.toString();
+    return buildShareUrl(url, urlOutput);
   }, [urlOutput]);
 
   const generateTiny = useCallback(() => {
@@ -334,6 +286,7 @@ ${htmlInput.trim() || '<h1>Your Content Here</h1>'}
             />
           </div>
         ))}
+        <LintPanel issues={lintIssues} onFix={applyLintFix} />
       </div>
     </div>
   );
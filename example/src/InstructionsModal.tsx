@@ -13,6 +13,7 @@ export default function InstructionsModal({ isOpen, onClose }: { isOpen: boolean
           <li><strong>Enter HTML</strong>: Type or paste your HTML into the textarea, including metadata tags like <code>&lt;meta property="og:title"&gt;</code>.</li>
           <li><strong>Add Metadata</strong>: Click "Add Social Metadata" to insert Open Graph and Twitter Card tags, or "Add JSON-LD" for structured data.</li>
           <li><strong>Edit Metadata</strong>: Use the right panel to update fields (title, description, image, URL). Changes sync to all related tags in the HTML.</li>
+          <li><strong>Check the Preview</strong>: The Preview Check below the fields lists what keeps your card from showing up, like a missing image or a title too long for a platform. Click "Fix" to apply the suggested change.</li>
           <li><strong>Test the Link</strong>: The shareable link compresses your HTML. Share it on social platforms or use preview tools (e.g., X’s Card Validator) to check how it renders.</li>
         </ul>
         <h3>Generate Redirect Pages</h3>
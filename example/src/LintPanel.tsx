@@ -0,0 +1,18 @@
+import type { LintIssue } from 'compress-to-url';
+
+export default function LintPanel({ issues, onFix }: { issues: LintIssue[]; onFix: (issue: LintIssue) => void }) {
+  return (
+    <div className="lint-panel">
+      <h2>Preview Check</h2>
+      {issues.length === 0 && <p className="lint-ok">No problems found.</p>}
+      <ul>
+        {issues.map((issue, index) => (
+          <li key={`${issue.rule}-${issue.platform ?? ''}-${index}`} className={`lint-${issue.severity}`}>
+            <span>{issue.message}</span>
+            {issue.fix && <button type="button" onClick={() => onFix(issue)}>Fix</button>}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
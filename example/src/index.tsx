@@ -12,4 +12,4 @@ if (typeof window !== 'undefined') {
   }
 }
 
-export { compressToUrl, decompressFromUrl } from 'compress-to-url';
+export { compressToUrl, compressTemplate, decompressFromUrl, lintSocialMetadata, readHeadMetadata, renderTemplate, updateHeadMetadata, buildShareUrl, parseShareUrl, REDIRECT_TEMPLATE_ID } from 'compress-to-url';
@@ -1,4 +1,4 @@
-import { compressToUrl } from 'compress-to-url';
+import { compressToUrl, readHeadMetadata, type HeadMetadata } from 'compress-to-url';
 
 export const SCRAPER_URL = ''; // Blank in example, extracted from HTML in production
 
@@ -49,7 +49,7 @@ export async function compressCode(code: string, cache: Map<string, string>) {
   const result = await compressToUrl(code, {
     inputType: 'string',
     mimeType: 'text/html',
-    normalizeWhitespace: false,
+    minify: false,
   });
   cache.set(code, result.payload);
   return result.payload;
@@ -67,31 +67,32 @@ export async function scrapeMetadata(url: string) {
   }
 }
 
-export function parseMetaFields(html: string) {
-  const fields = { title: '', description: '', image_url: '', url: '' };
-  const patterns = [
-    { key: 'title', regex: [/<title>(.*?)<\/title>/i, /<meta[^>]*property="og:title"[^>]*content="([^"]*)"/i, /<meta[^>]*name="twitter:title"[^>]*content="([^"]*)"/i] },
-    { key: 'description', regex: [/<meta[^>]*property="og:description"[^>]*content="([^"]*)"/i, /<meta[^>]*name="twitter:description"[^>]*content="([^"]*)"/i, /<meta[^>]*name="description"[^>]*content="([^"]*)"/i, /"description":\s*"([^"]*)"/i] },
-    { key: 'image_url', regex: [/<meta[^>]*property="og:image"[^>]*content="([^"]*)"/i, /<meta[^>]*name="twitter:image"[^>]*content="([^"]*)"/i, /"image":\s*"([^"]*)"/i] },
-    { key: 'url', regex: [/<meta[^>]*property="og:url"[^>]*content="([^"]*)"/i, /"url":\s*"([^"]*)"/i] },
-  ];
-
-  for (const { key, regex } of patterns) {
-    for (const r of regex) {
-      const match = html.match(r);
-      if (match) {
-        fields[key as keyof typeof fields] = match[1];
-        break;
-      }
-    }
+// First JSON-LD object with a string value for `key`, as a fallback for meta tags
+function jsonLdValue(metadata: HeadMetadata, key: string): string | undefined {
+  for (const { data } of metadata.jsonLd) {
+    const value = data && typeof data === 'object' ? (data as Record<string, unknown>)[key] : undefined;
+    if (typeof value === 'string') return value;
   }
-  return fields;
+  return undefined;
+}
+
+export function parseMetaFields(html: string) {
+  const metadata = readHeadMetadata(html);
+  const { meta } = metadata;
+  return {
+    title: metadata.title ?? meta['og:title'] ?? meta['twitter:title'] ?? '',
+    description: meta['og:description'] ?? meta['twitter:description'] ?? meta.description ?? jsonLdValue(metadata, 'description') ?? '',
+    image_url: meta['og:image'] ?? meta['twitter:image'] ?? jsonLdValue(metadata, 'image') ?? '',
+    url: meta['og:url'] ?? jsonLdValue(metadata, 'url') ?? '',
+  };
 }
 
 export function updateActiveFields(html: string) {
+  const metadata = readHeadMetadata(html);
+  const { meta } = metadata;
   return {
-    description: html.includes('og:description') || html.includes('twitter:description') || html.includes('description":'),
-    image_url: html.includes('og:image') || html.includes('twitter:image') || html.includes('image":'),
-    url: html.includes('og:url') || html.includes('url":'),
+    description: 'og:description' in meta || 'twitter:description' in meta || jsonLdValue(metadata, 'description') !== undefined,
+    image_url: 'og:image' in meta || 'twitter:image' in meta || jsonLdValue(metadata, 'image') !== undefined,
+    url: 'og:url' in meta || jsonLdValue(metadata, 'url') !== undefined,
   };
 }
@@ -0,0 +1,60 @@
+import { compressBundle, decompressBundle, resolveBundle } from './bundle';
+import { compressToUrl, decompressFromUrl } from './index';
+
+describe('bundles', () => {
+    const files = {
+        'index.html': '<!DOCTYPE html><html><head><link rel="stylesheet" href="./css/style.css"><script src="app.js"></script></head><body><img src="icon.png"><a href="about.html">About</a><a href="https://example.com/app.js">Out</a></body></html>',
+        'css/style.css': 'body { background: url(../icon.png); }',
+        'app.js': 'console.log("hi");',
+        'about.html': '<p>About</p>',
+        'icon.png': { data: new Uint8Array([137, 80, 78, 71]), mimeType: 'image/png' },
+    };
+
+    // Test 1: Round trip
+    it('packs several entries into one payload', async () => {
+        const { payload } = await compressBundle(files);
+        const bundle = await decompressBundle(payload);
+        expect([...bundle.keys()]).toEqual(['index.html', 'css/style.css', 'app.js', 'about.html', 'icon.png']);
+        expect(bundle.get('css/style.css')).toEqual({ data: 'body { background: url(../icon.png); }', mimeType: 'text/css' });
+        expect(bundle.get('app.js')!.mimeType).toBe('text/javascript');
+        expect(bundle.get('icon.png')).toEqual({ data: new Uint8Array([137, 80, 78, 71]), mimeType: 'image/png' });
+    });
+
+    // Test 2: Relative references resolve to the other entries
+    it('resolves relative references when rendering', async () => {
+        const bundle = await decompressBundle((await compressBundle(files)).payload);
+        const html = resolveBundle(bundle);
+        const css = btoa(`body { background: url("data:image/png;base64,${btoa('\x89PNG')}"); }`);
+        expect(html).toContain(`href="data:text/css;base64,${css}"`);
+        expect(html).toContain(`src="data:text/javascript;base64,${btoa('console.log("hi");')}"`);
+        expect(html).toContain(`<img src="data:image/png;base64,${btoa('\x89PNG')}">`);
+        expect(html).toContain('<a href="about.html">');
+        expect(html).toContain('<a href="https://example.com/app.js">');
+    });
+
+    // Test 3: Payload kinds are not mixed up
+    it('rejects the wrong decoder', async () => {
+        const { payload: bundlePayload } = await compressBundle({ 'index.html': '<p>Hi</p>' });
+        await expect(decompressFromUrl(bundlePayload)).rejects.toThrow('Payload is a bundle; use decompressBundle');
+        const { payload } = await compressToUrl('<p>Hi</p>');
+        await expect(decompressBundle(payload)).rejects.toThrow('Payload is not a bundle');
+    });
+
+    // Test 4: Invalid bundles
+    it('throws on empty bundles and duplicate paths', async () => {
+        await expect(compressBundle({})).rejects.toThrow('Bundle must contain at least one entry');
+        await expect(compressBundle({ 'a.txt': 'a', './a.txt': 'b' })).rejects.toThrow('Bundle paths must be unique');
+    });
+
+    // Test 5: Stylesheets that import each other
+    it('inlines an import cycle once and leaves the reference back alone', () => {
+        const bundle = new Map([
+            ['index.html', { data: '<link rel="stylesheet" href="a.css">', mimeType: 'text/html' }],
+            ['a.css', { data: '@import "b.css"; a { color: red; }', mimeType: 'text/css' }],
+            ['b.css', { data: '@import url(a.css); b { color: blue; }', mimeType: 'text/css' }],
+        ]);
+        const b = btoa('@import url(a.css); b { color: blue; }');
+        const a = btoa(`@import "data:text/css;base64,${b}"; a { color: red; }`);
+        expect(resolveBundle(bundle)).toBe(`<link rel="stylesheet" href="data:text/css;base64,${a}">`);
+    });
+});
@@ -0,0 +1,202 @@
+import { decodeData, packContent, unpackContent } from './core';
+import { CorruptPayloadError, PayloadTypeError } from './errors';
+import { FLAG_BUNDLE } from './header';
+import { minifyHtml } from './minify';
+import type { CompressOptions, CompressResult, DecompressOptions, DecompressResult } from './types';
+import { readVarint, writeVarint } from './varint';
+
+interface BundleEntry {
+  data: string | Uint8Array;
+  mimeType?: string;
+}
+
+type BundleInput = Record<string, string | Uint8Array | BundleEntry>;
+
+type BundleOptions = Pick<CompressOptions, 'maxSize' | 'codec' | 'dictionary' | 'alphabet' | 'encrypt' | 'sign' | 'minify' | 'shard' | 'shareUrl'>;
+
+type Bundle = Map<string, DecompressResult>;
+
+const MIME_TYPES: Record<string, string> = {
+  html: 'text/html',
+  htm: 'text/html',
+  css: 'text/css',
+  js: 'text/javascript',
+  mjs: 'text/javascript',
+  json: 'application/json',
+  txt: 'text/plain',
+  svg: 'image/svg+xml',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  ico: 'image/x-icon',
+};
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export function guessMimeType(path: string, isText: boolean): string {
+  const extension = path.split('.').pop()!.toLowerCase();
+  return MIME_TYPES[extension] ?? (isText ? 'text/plain' : 'application/octet-stream');
+}
+
+// Bundle paths are relative to the bundle root, without leading "./" or "/"
+export function normalizePath(path: string): string {
+  const segments: string[] = [];
+  for (const segment of path.split('/')) {
+    if (segment === '..') segments.pop();
+    else if (segment && segment !== '.') segments.push(segment);
+  }
+  return segments.join('/');
+}
+
+// Layout: entry count, then for each entry its path, MIME type and data, each
+// preceded by a varint length.
+function serializeBundle(entries: { path: string; mimeType: string; data: Uint8Array }[]): Uint8Array {
+  const out: number[] = [];
+  writeVarint(out, entries.length);
+  for (const { path, mimeType, data } of entries) {
+    for (const bytes of [encoder.encode(path), encoder.encode(mimeType), data]) {
+      writeVarint(out, bytes.length);
+      for (const byte of bytes) out.push(byte);
+    }
+  }
+  return new Uint8Array(out);
+}
+
+function deserializeBundle(bytes: Uint8Array): { path: string; mimeType: string; data: Uint8Array }[] {
+  const cursor = { offset: 0 };
+  const readBytes = () => {
+    const length = readVarint(bytes, cursor, 'Bundle');
+    if (cursor.offset + length > bytes.length) throw new CorruptPayloadError('Bundle is truncated');
+    const slice = bytes.subarray(cursor.offset, cursor.offset + length);
+    cursor.offset += length;
+    return slice;
+  };
+  const count = readVarint(bytes, cursor, 'Bundle');
+  const entries = [];
+  for (let i = 0; i < count; i++) {
+    const path = decoder.decode(readBytes());
+    const mimeType = decoder.decode(readBytes());
+    entries.push({ path, mimeType, data: readBytes() });
+  }
+  return entries;
+}
+
+async function compressBundle(files: BundleInput, options: BundleOptions = {}): Promise<CompressResult> {
+  const { minify = false, ...packOptions } = options;
+  const paths = Object.keys(files);
+  if (!paths.length) throw new Error('Bundle must contain at least one entry');
+
+  let minifySavedBytes: number | undefined;
+  const entries = paths.map(rawPath => {
+    const path = normalizePath(rawPath);
+    if (!path) throw new Error(`Invalid bundle path: "${rawPath}"`);
+    const file = files[rawPath];
+    const entry: BundleEntry = typeof file === 'string' || file instanceof Uint8Array ? { data: file } : file;
+    const mimeType = entry.mimeType ?? guessMimeType(path, typeof entry.data === 'string');
+    let { data } = entry;
+    if (minify && typeof data === 'string' && mimeType === 'text/html') {
+      const minified = minifyHtml(data);
+      data = minified.html;
+      minifySavedBytes = (minifySavedBytes ?? 0) + minified.savedBytes;
+    }
+    return { path, mimeType, data: typeof data === 'string' ? encoder.encode(data) : data };
+  });
+
+  if (new Set(entries.map(entry => entry.path)).size !== entries.length) {
+    throw new Error('Bundle paths must be unique');
+  }
+
+  const result = await packContent(serializeBundle(entries), {
+    ...packOptions,
+    flags: FLAG_BUNDLE,
+    html: entries.some(entry => entry.mimeType === 'text/html'),
+  });
+  return { ...result, minifySavedBytes };
+}
+
+async function decompressBundle(payload: string | string[], options: DecompressOptions = {}): Promise<Bundle> {
+  const { outputType = 'auto', ...unpackOptions } = options;
+  const { header, content } = await unpackContent(payload, unpackOptions);
+  if (!(header.flags & FLAG_BUNDLE)) {
+    throw new PayloadTypeError('Payload is not a bundle');
+  }
+  const bundle: Bundle = new Map();
+  for (const { path, mimeType, data } of deserializeBundle(content)) {
+    bundle.set(path, { data: decodeData(data, mimeType, outputType), mimeType });
+  }
+  return bundle;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function entryBytes(entry: DecompressResult): Uint8Array {
+  return typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data;
+}
+
+// Finds the bundle entry a relative reference points to. Absolute URLs, fragments
+// and paths missing from the bundle are left alone.
+function resolveReference(bundle: Bundle, reference: string, fromPath: string): string | undefined {
+  if (/^[a-z][a-z0-9+.-]*:/i.test(reference) || reference.startsWith('//') || reference.startsWith('#')) {
+    return undefined;
+  }
+  const target = reference.replace(/[?#].*$/, '');
+  const base = reference.startsWith('/') ? '' : fromPath.split('/').slice(0, -1).join('/');
+  const path = normalizePath(`${base}/${target}`);
+  return bundle.has(path) ? path : undefined;
+}
+
+// `stack` holds the stylesheets being inlined around this one. A reference back
+// to any of them is left as is, since inlining it would never end.
+function toDataUrl(bundle: Bundle, path: string, stack: string[] = []): string {
+  const entry = bundle.get(path)!;
+  let bytes = entryBytes(entry);
+  if (entry.mimeType === 'text/css') {
+    // A stylesheet turned into a data URL loses its location, so its own references go inline too
+    const chain = [...stack, path];
+    const inline = (reference: string) => {
+      const target = resolveReference(bundle, reference.trim(), path);
+      return target && !chain.includes(target) ? toDataUrl(bundle, target, chain) : undefined;
+    };
+    const css = decoder.decode(bytes).replace(
+      /url\(\s*(['"]?)([^'")]+)\1\s*\)|@import\s+(['"])([^'"]+)\3/g,
+      (match, _quote, reference?: string, _importQuote?: string, imported?: string) => {
+        const dataUrl = inline(reference ?? imported!);
+        if (!dataUrl) return match;
+        return reference !== undefined ? `url("${dataUrl}")` : `@import "${dataUrl}"`;
+      },
+    );
+    bytes = encoder.encode(css);
+  }
+  return `data:${entry.mimeType};base64,${toBase64(bytes)}`;
+}
+
+// Produces a standalone HTML document from a bundle entry by replacing src, href
+// and poster references to other entries with data URLs. Links to other HTML
+// entries stay relative, since browsers refuse to navigate to data URLs.
+function resolveBundle(bundle: Bundle, entryPath: string = 'index.html'): string {
+  const path = normalizePath(entryPath);
+  const entry = bundle.get(path);
+  if (!entry) throw new Error(`Bundle entry not found: "${entryPath}"`);
+  const html = typeof entry.data === 'string' ? entry.data : decoder.decode(entry.data);
+
+  return html.replace(
+    /(\s(?:src|href|poster)\s*=\s*)(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/gi,
+    (match, prefix: string, double?: string, single?: string, bare?: string) => {
+      const reference = (double ?? single ?? bare ?? '').trim();
+      const target = resolveReference(bundle, reference, path);
+      if (!target || target === path || bundle.get(target)!.mimeType === 'text/html') return match;
+      return `${prefix}"${toDataUrl(bundle, target)}"`;
+    },
+  );
+}
+
+export { compressBundle, decompressBundle, resolveBundle, Bundle, BundleEntry, BundleInput, BundleOptions };
@@ -0,0 +1,143 @@
+/// <reference lib="dom" />
+/// <reference lib="dom.iterable" />
+
+import { type Backend, compressBytes, limitStream, prependDictionary, readAll, streamFrom } from './codecs';
+import { compressToUrl, decompressFromUrl, DecompressionLimitError, setBackend, UnsupportedRuntimeError } from './index';
+
+describe('codecs', () => {
+    // Test 1: DecompressionStream can inflate dictionary payloads
+    it('inflates dictionary payloads through a stored block prefix', async () => {
+        const encoder = new TextEncoder();
+        const dictionary = encoder.encode('<meta property="og:title" content="');
+        const data = encoder.encode('<meta property="og:title" content="Hello">');
+        const compressed = await compressBytes(data, 'deflate-raw', dictionary);
+
+        const stream = new Blob([prependDictionary(compressed, dictionary)]).stream()
+            .pipeThrough(new DecompressionStream('deflate-raw'));
+        const inflated = new Uint8Array(await new Response(stream).arrayBuffer());
+        expect(new TextDecoder().decode(inflated.subarray(dictionary.length))).toBe('<meta property="og:title" content="Hello">');
+    });
+
+    describe('decompression limits', () => {
+        // 16 MB of zeros deflate to a few KB
+        const bomb = new Uint8Array(16 * 1024 * 1024);
+        let payload: string;
+        beforeAll(async () => {
+            ({ payload } = await compressToUrl(bomb, { inputType: 'binary', codec: 'deflate-raw', maxSize: Infinity }));
+        });
+
+        // Test 2: maxOutputBytes on the zlib path
+        it('stops at maxOutputBytes', async () => {
+            const promise = decompressFromUrl(payload, { maxOutputBytes: 1024 * 1024 });
+            await expect(promise).rejects.toThrow(DecompressionLimitError);
+            await expect(decompressFromUrl(payload, { maxOutputBytes: 1024 })).rejects.toThrow('Decompressed output exceeds maxOutputBytes (1024 bytes)');
+        });
+
+        // Test 3: Output under the limit
+        it('allows output under maxOutputBytes', async () => {
+            const { data } = await decompressFromUrl(payload, { maxOutputBytes: bomb.length + 100 });
+            expect((data as Uint8Array).length).toBe(bomb.length);
+        });
+
+        // Test 4: maxOutputBytes on the DecompressionStream path
+        it('stops DecompressionStream at maxOutputBytes', async () => {
+            const compressed = await compressBytes(bomb, 'deflate-raw');
+            const stream = streamFrom(compressed)
+                .pipeThrough(new DecompressionStream('deflate-raw'))
+                .pipeThrough(limitStream({ maxOutputBytes: 65536 }));
+            const error = await readAll(stream).catch(caught => caught);
+            expect(error).toBeInstanceOf(DecompressionLimitError);
+            expect(error.limit).toBe('maxOutputBytes');
+        });
+
+        // Test 5: AbortSignal
+        it('stops when the signal aborts', async () => {
+            const controller = new AbortController();
+            controller.abort();
+            const error = await decompressFromUrl(payload, { signal: controller.signal }).catch(caught => caught);
+            expect(error).toBeInstanceOf(DecompressionLimitError);
+            expect(error.limit).toBe('signal');
+            expect(error.message).toBe('Decompression was aborted');
+        });
+
+        // Test 6: Timeout
+        it('stops after timeoutMs', async () => {
+            const error = await decompressFromUrl(payload, { timeoutMs: 0 }).catch(caught => caught);
+            expect(error).toBeInstanceOf(DecompressionLimitError);
+            expect(error.limit).toBe('timeoutMs');
+            expect(error.message).toBe('Decompression timed out after 0 ms');
+        });
+
+        // Test 7: Invalid limits
+        it('rejects invalid limits', async () => {
+            await expect(decompressFromUrl(payload, { maxOutputBytes: -1 })).rejects.toThrow('maxOutputBytes must be a non-negative number');
+            await expect(decompressFromUrl(payload, { timeoutMs: NaN })).rejects.toThrow('timeoutMs must be a non-negative number');
+        });
+    });
+
+    describe('backends', () => {
+        afterEach(() => setBackend('auto'));
+
+        // Test 8: The package loads through require(), so it has no top-level await
+        it('loads with require()', () => {
+            const required = require('./index');
+            expect(typeof required.compressToUrl).toBe('function');
+        });
+
+        // Test 9: Forcing a built-in backend
+        it('switches between built-in backends', async () => {
+            const input = '<p>Hello</p>'.repeat(10);
+            setBackend('web-streams');
+            const { payload } = await compressToUrl(input);
+            await expect(compressToUrl(input, { codec: 'brotli' })).rejects.toThrow(UnsupportedRuntimeError);
+            setBackend('node-zlib');
+            expect((await decompressFromUrl(payload)).data).toBe(input);
+            expect((await compressToUrl(input, { codec: 'brotli' })).codec).toBe('brotli');
+        });
+
+        // Test 10: A custom backend
+        it('uses a custom backend', async () => {
+            const calls: string[] = [];
+            const custom: Backend = {
+                name: 'custom',
+                codecs: ['gzip'],
+                dictionaries: false,
+                compressionStream(codec) {
+                    calls.push(`compress ${codec}`);
+                    return new CompressionStream('gzip');
+                },
+                decompressionStream(codec) {
+                    calls.push(`decompress ${codec}`);
+                    return new DecompressionStream('gzip');
+                },
+            };
+            setBackend(custom);
+            const { payload, codec } = await compressToUrl('Hello, custom backend');
+            expect(codec).toBe('gzip');
+            expect((await decompressFromUrl(payload)).data).toBe('Hello, custom backend');
+            expect(calls).toEqual(['compress gzip', 'decompress gzip']);
+            expect(() => setBackend({ name: 'broken' } as any)).toThrow('A custom backend needs codecs');
+        });
+
+        // Test 11: CompressionStream formats are probed, as Node 18 has no deflate-raw
+        it('offers only the CompressionStream formats the runtime accepts', async () => {
+            const original = globalThis.CompressionStream;
+            globalThis.CompressionStream = class extends original {
+                constructor(format: CompressionFormat) {
+                    if (format === 'deflate-raw') throw new TypeError(`Unsupported format: ${format}`);
+                    super(format);
+                }
+            };
+            try {
+                setBackend('web-streams');
+                const input = '<p>Hello</p>'.repeat(10);
+                const { payload, codec } = await compressToUrl(input);
+                expect(codec).toBe('gzip');
+                expect((await decompressFromUrl(payload)).data).toBe(input);
+                await expect(compressToUrl(input, { codec: 'deflate-raw' })).rejects.toThrow(UnsupportedRuntimeError);
+            } finally {
+                globalThis.CompressionStream = original;
+            }
+        });
+    });
+});
@@ -0,0 +1,441 @@
+/// <reference lib="dom" />
+/// <reference lib="dom.iterable" />
+
+import { deflateRaw, gunzip, gzip, inflateRaw } from './deflate';
+import { CompressToUrlError, CorruptPayloadError, DecompressionLimitError, UnsupportedPayloadError, UnsupportedRuntimeError } from './errors';
+
+type Codec = 'gzip' | 'deflate-raw' | 'brotli';
+
+type BackendName = 'node-zlib' | 'web-streams' | 'pure-js';
+
+// What setBackend accepts besides the built-in names: any object that turns a codec
+// into compression and decompression transforms.
+interface Backend {
+  name: string;
+  codecs: Codec[];
+  // Whether deflate-raw takes a preset dictionary
+  dictionaries: boolean;
+  compressionStream(codec: Codec, dictionary?: Uint8Array, sizeHint?: number): ByteTransform;
+  decompressionStream(codec: Codec, dictionary?: Uint8Array, maxOutputBytes?: number): ByteTransform;
+}
+
+// Codec ids stored in the low bits of the payload flags byte
+export const CODEC_IDS: Record<Codec, number> = {
+  gzip: 0,
+  'deflate-raw': 1,
+  brotli: 2,
+};
+
+export function codecFromId(id: number): Codec {
+  const codec = (Object.keys(CODEC_IDS) as Codec[]).find(name => CODEC_IDS[name] === id);
+  if (!codec) throw new UnsupportedPayloadError(`Unsupported codec in payload header: ${id}`);
+  return codec;
+}
+
+// zlib is imported on first use, never at import time, so the module loads with
+// require() and in bundlers. The specifier is a variable so that bundlers leave
+// it to the runtime instead of bundling a browser shim.
+const ZLIB_MODULE = 'node:zlib';
+
+let zlibModule: Promise<typeof import('zlib') | undefined> | undefined;
+
+function loadZlib(): Promise<typeof import('zlib') | undefined> {
+  zlibModule ??= typeof process === 'undefined' || !process.versions?.node
+    ? Promise.resolve(undefined)
+    : import(ZLIB_MODULE).catch(() => undefined);
+  return zlibModule;
+}
+
+// Node 18 has CompressionStream without deflate-raw and only throws when a stream
+// is created, so each format is tried before it is offered
+function probeWebStreams(): Backend | undefined {
+  if (typeof CompressionStream === 'undefined' || typeof DecompressionStream === 'undefined') return undefined;
+  const codecs = (['gzip', 'deflate-raw'] as Codec[]).filter(codec => {
+    try {
+      new CompressionStream(codec as CompressionFormat);
+      new DecompressionStream(codec as CompressionFormat);
+      return true;
+    } catch {
+      return false;
+    }
+  });
+  return codecs.length ? { ...webStreamsBackend, codecs } : undefined;
+}
+
+async function createBackend(name: BackendName): Promise<Backend | undefined> {
+  switch (name) {
+    case 'node-zlib': {
+      const zlib = await loadZlib();
+      return zlib && nodeZlibBackend(zlib);
+    }
+    case 'web-streams':
+      return probeWebStreams();
+    case 'pure-js':
+      return pureJsBackend;
+  }
+}
+
+const BACKEND_NAMES: BackendName[] = ['node-zlib', 'web-streams', 'pure-js'];
+
+let selectedBackend: Promise<Backend> | undefined;
+
+// 'auto' takes node zlib, then CompressionStream, then the bundled pure-JS codec,
+// once something needs a backend. A backend without deflate-raw could not read
+// most payloads, so 'auto' passes over it.
+function setBackend(backend: BackendName | Backend | 'auto'): void {
+  if (backend === 'auto') {
+    selectedBackend = undefined;
+    return;
+  }
+  if (typeof backend === 'object' && backend) {
+    if (typeof backend.compressionStream !== 'function' || typeof backend.decompressionStream !== 'function' || !Array.isArray(backend.codecs)) {
+      throw new Error('A custom backend needs codecs, compressionStream and decompressionStream');
+    }
+    selectedBackend = Promise.resolve(backend);
+    return;
+  }
+  if (!BACKEND_NAMES.includes(backend)) {
+    throw new Error('Invalid backend: use "node-zlib", "web-streams", "pure-js", "auto" or a backend object');
+  }
+  // zlib can only be imported asynchronously, so a missing one is reported by the next call
+  if (backend === 'node-zlib') {
+    selectedBackend = createBackend(backend).then(created => {
+      if (!created) throw new UnsupportedRuntimeError('node-zlib backend unavailable in this runtime');
+      return created;
+    });
+    selectedBackend.catch(() => {});
+    return;
+  }
+  const created = backend === 'web-streams' ? probeWebStreams() : pureJsBackend;
+  if (!created) throw new UnsupportedRuntimeError(`${backend} backend unavailable in this runtime`);
+  selectedBackend = Promise.resolve(created);
+}
+
+export function activeBackend(): Promise<Backend> {
+  selectedBackend ??= (async () => {
+    for (const name of BACKEND_NAMES) {
+      const backend = await createBackend(name);
+      if (backend?.codecs.includes('deflate-raw')) return backend;
+    }
+    return pureJsBackend;
+  })();
+  return selectedBackend;
+}
+
+export async function isCodecSupported(codec: Codec): Promise<boolean> {
+  return (await activeBackend()).codecs.includes(codec);
+}
+
+export async function supportsDictionaryCompression(): Promise<boolean> {
+  return (await activeBackend()).dictionaries;
+}
+
+// DecompressionStream has no dictionary option. Feeding the dictionary first as a
+// non-final stored block fills the inflate window the same way, after which the
+// dictionary bytes are dropped from the output.
+export function prependDictionary(data: Uint8Array, dictionary: Uint8Array): Uint8Array {
+  const length = dictionary.length;
+  const bytes = new Uint8Array(5 + length + data.length);
+  bytes.set([0, length & 0xff, length >> 8, ~length & 0xff, (~length >> 8) & 0xff]);
+  bytes.set(dictionary, 5);
+  bytes.set(data, 5 + length);
+  return bytes;
+}
+
+type ByteTransform = ReadableWritablePair<Uint8Array, Uint8Array>;
+
+// Adapts a node zlib stream to a web TransformStream
+function fromZlib(stream: import('zlib').Gzip | import('zlib').DeflateRaw | import('zlib').BrotliCompress): TransformStream<Uint8Array, Uint8Array> {
+  return new TransformStream({
+    start(controller) {
+      stream.on('data', (chunk: Buffer) => {
+        try {
+          controller.enqueue(new Uint8Array(chunk.buffer, chunk.byteOffset, chunk.length));
+        } catch {
+          // The reading side is gone, for instance after a limit was hit: stop inflating
+          stream.destroy();
+        }
+      });
+      stream.on('error', error => controller.error(error));
+    },
+    transform(chunk) {
+      return new Promise<void>((resolve, reject) => {
+        stream.write(chunk, error => (error ? reject(error) : resolve()));
+      });
+    },
+    flush() {
+      return new Promise<void>((resolve, reject) => {
+        stream.once('end', resolve);
+        stream.once('error', reject);
+        stream.end();
+      });
+    },
+  });
+}
+
+// Drops the first `count` bytes going through
+function skipBytes(count: number): TransformStream<Uint8Array, Uint8Array> {
+  let remaining = count;
+  return new TransformStream({
+    transform(chunk, controller) {
+      if (remaining >= chunk.length) {
+        remaining -= chunk.length;
+        return;
+      }
+      controller.enqueue(chunk.subarray(remaining));
+      remaining = 0;
+    },
+  });
+}
+
+export function concatChunks(chunks: Uint8Array[], length: number): Uint8Array {
+  if (chunks.length === 1) return chunks[0];
+  const bytes = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes;
+}
+
+// Collects the whole input before converting it in one go
+function bufferedTransform(convert: (bytes: Uint8Array) => Uint8Array): TransformStream<Uint8Array, Uint8Array> {
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  return new TransformStream({
+    transform(chunk) {
+      chunks.push(chunk);
+      length += chunk.length;
+    },
+    flush(controller) {
+      controller.enqueue(convert(concatChunks(chunks, length)));
+    },
+  });
+}
+
+function chain(first: TransformStream<Uint8Array, Uint8Array>, ...rest: ByteTransform[]): ByteTransform {
+  return { writable: first.writable, readable: rest.reduce((readable, next) => readable.pipeThrough(next), first.readable) };
+}
+
+function nodeZlibBackend(zlib: typeof import('zlib')): Backend {
+  return {
+    name: 'node-zlib',
+    codecs: ['gzip', 'deflate-raw', 'brotli'],
+    dictionaries: true,
+    compressionStream(codec, dictionary, sizeHint) {
+      switch (codec) {
+        case 'gzip':
+          return fromZlib(zlib.createGzip({ level: 9 }));
+        case 'deflate-raw':
+          return fromZlib(zlib.createDeflateRaw({ level: 9, dictionary }));
+        case 'brotli':
+          return fromZlib(zlib.createBrotliCompress({
+            params: {
+              [zlib.constants.BROTLI_PARAM_QUALITY]: zlib.constants.BROTLI_MAX_QUALITY,
+              ...(sizeHint === undefined ? {} : { [zlib.constants.BROTLI_PARAM_SIZE_HINT]: sizeHint }),
+            },
+          }));
+      }
+    },
+    decompressionStream(codec, dictionary) {
+      switch (codec) {
+        case 'gzip':
+          return fromZlib(zlib.createGunzip());
+        case 'deflate-raw':
+          return fromZlib(zlib.createInflateRaw({ dictionary }));
+        case 'brotli':
+          return fromZlib(zlib.createBrotliDecompress());
+      }
+    },
+  };
+}
+
+const webStreamsBackend: Backend = {
+  name: 'web-streams',
+  codecs: ['gzip', 'deflate-raw'],
+  // Inflating with a dictionary works through prependDictionary, deflating does not
+  dictionaries: false,
+  compressionStream(codec) {
+    return new CompressionStream(codec as CompressionFormat);
+  },
+  decompressionStream(codec, dictionary) {
+    if (!dictionary) return new DecompressionStream(codec as CompressionFormat);
+    const prefix = new TransformStream<Uint8Array, Uint8Array>({
+      start(controller) {
+        controller.enqueue(prependDictionary(new Uint8Array(0), dictionary));
+      },
+    });
+    return chain(prefix, new DecompressionStream(codec as CompressionFormat), skipBytes(dictionary.length));
+  },
+};
+
+// The pure-JS codec works on whole buffers, so maxOutputBytes is checked while inflating
+const pureJsBackend: Backend = {
+  name: 'pure-js',
+  codecs: ['gzip', 'deflate-raw'],
+  dictionaries: true,
+  compressionStream(codec, dictionary) {
+    return bufferedTransform(bytes => compressBytesSync(bytes, codec, dictionary));
+  },
+  decompressionStream(codec, dictionary, maxOutputBytes) {
+    return bufferedTransform(bytes => decompressBytesSync(bytes, codec, dictionary, maxOutputBytes));
+  },
+};
+
+// Feeds a transform that is only known once the backend is, which takes a
+// dynamic import the first time
+function deferredTransform(create: () => Promise<ByteTransform>): TransformStream<Uint8Array, Uint8Array> {
+  let writer: WritableStreamDefaultWriter<Uint8Array>;
+  let pump: Promise<void>;
+  return new TransformStream({
+    async start(controller) {
+      const stream = await create();
+      writer = stream.writable.getWriter();
+      pump = stream.readable.pipeTo(new WritableStream({ write: chunk => controller.enqueue(chunk) }));
+      // A codec that fails may leave the pending write unsettled, so the error
+      // goes straight to the output
+      pump.catch(error => controller.error(error));
+    },
+    transform(chunk) {
+      return writer.write(chunk);
+    },
+    async flush() {
+      await writer.close();
+      await pump;
+    },
+  });
+}
+
+// sizeHint lets brotli tune its window when the input length is known upfront
+export function compressionStream(codec: Codec, dictionary?: Uint8Array, sizeHint?: number): ByteTransform {
+  if (dictionary && codec !== 'deflate-raw') {
+    throw new Error('Preset dictionaries require the deflate-raw codec');
+  }
+  return deferredTransform(async () => {
+    const backend = await activeBackend();
+    if (!backend.codecs.includes(codec)) {
+      throw new UnsupportedRuntimeError(`${codec} codec unavailable in the ${backend.name} backend`);
+    }
+    if (dictionary && !backend.dictionaries) {
+      throw new UnsupportedRuntimeError(`Preset dictionary compression unavailable in the ${backend.name} backend`);
+    }
+    return backend.compressionStream(codec, dictionary, sizeHint);
+  });
+}
+
+// Every backend inflates dictionary payloads, even those that cannot write them
+export function decompressionStream(codec: Codec, dictionary?: Uint8Array, maxOutputBytes?: number): ByteTransform {
+  if (dictionary && codec !== 'deflate-raw') {
+    throw new Error('Preset dictionaries require the deflate-raw codec');
+  }
+  return deferredTransform(async () => {
+    const backend = await activeBackend();
+    if (!backend.codecs.includes(codec)) {
+      throw new UnsupportedRuntimeError(`${codec} codec unavailable in the ${backend.name} backend`);
+    }
+    return backend.decompressionStream(codec, dictionary, maxOutputBytes);
+  });
+}
+
+interface OutputLimits {
+  maxOutputBytes?: number;
+  timeoutMs?: number;
+  signal?: AbortSignal;
+}
+
+function abortError(signal: AbortSignal, timeoutMs?: number): DecompressionLimitError {
+  const reason = signal.reason;
+  if (timeoutMs !== undefined && reason instanceof DOMException && reason.name === 'TimeoutError') {
+    return new DecompressionLimitError(`Decompression timed out after ${timeoutMs} ms`, 'timeoutMs', { cause: reason });
+  }
+  return new DecompressionLimitError('Decompression was aborted', 'signal', { cause: reason });
+}
+
+// Combines the caller's signal with a timeout; timeout reasons are recognized by abortError
+function limitSignal(timeoutMs?: number, signal?: AbortSignal): AbortSignal | undefined {
+  if (timeoutMs !== undefined && (!Number.isFinite(timeoutMs) || timeoutMs < 0)) {
+    throw new Error('timeoutMs must be a non-negative number');
+  }
+  const signals = [signal, timeoutMs === undefined ? undefined : AbortSignal.timeout(timeoutMs)].filter(item => item !== undefined);
+  return signals.length > 1 ? AbortSignal.any(signals) : signals[0];
+}
+
+// Counts output bytes and fails the stream as soon as a limit is hit. The error
+// travels upstream as a cancellation, which stops the codec from inflating further.
+export function limitStream(limits: OutputLimits): TransformStream<Uint8Array, Uint8Array> {
+  const { maxOutputBytes = Infinity, timeoutMs } = limits;
+  if (!(maxOutputBytes >= 0)) throw new Error('maxOutputBytes must be a non-negative number');
+  const signal = limitSignal(timeoutMs, limits.signal);
+  let total = 0;
+  let onAbort: (() => void) | undefined;
+  return new TransformStream({
+    start(controller) {
+      if (!signal) return;
+      if (signal.aborted) throw abortError(signal, timeoutMs);
+      onAbort = () => controller.error(abortError(signal, timeoutMs));
+      signal.addEventListener('abort', onAbort, { once: true });
+    },
+    transform(chunk, controller) {
+      total += chunk.length;
+      if (total > maxOutputBytes) {
+        if (onAbort) signal!.removeEventListener('abort', onAbort);
+        throw new DecompressionLimitError(`Decompressed output exceeds maxOutputBytes (${maxOutputBytes} bytes)`, 'maxOutputBytes');
+      }
+      controller.enqueue(chunk);
+    },
+    flush() {
+      if (onAbort) signal!.removeEventListener('abort', onAbort);
+    },
+  });
+}
+
+export function streamFrom(bytes: Uint8Array): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    start(controller) {
+      if (bytes.length) controller.enqueue(bytes);
+      controller.close();
+    },
+  });
+}
+
+export async function readAll(readable: ReadableStream<Uint8Array>): Promise<Uint8Array> {
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  const reader = readable.getReader();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    length += value.length;
+  }
+  return concatChunks(chunks, length);
+}
+
+// Codec failures while inflating mean the compressed data is damaged
+export function asCorruptPayloadError(error: unknown): unknown {
+  return error instanceof CompressToUrlError ? error : new CorruptPayloadError('Compressed data is corrupt', { cause: error });
+}
+
+export async function compressBytes(data: Uint8Array, codec: Codec, dictionary?: Uint8Array): Promise<Uint8Array> {
+  return readAll(streamFrom(data).pipeThrough(compressionStream(codec, dictionary, data.length)));
+}
+
+// The synchronous API always runs on the pure-JS codec
+export function compressBytesSync(data: Uint8Array, codec: Codec, dictionary?: Uint8Array): Uint8Array {
+  if (codec === 'brotli') throw new UnsupportedRuntimeError('brotli codec unavailable in the pure-JS backend');
+  if (dictionary && codec !== 'deflate-raw') {
+    throw new Error('Preset dictionaries require the deflate-raw codec');
+  }
+  return codec === 'gzip' ? gzip(data) : deflateRaw(data, dictionary);
+}
+
+export function decompressBytesSync(data: Uint8Array, codec: Codec, dictionary?: Uint8Array, maxOutputBytes: number = Infinity): Uint8Array {
+  if (codec === 'brotli') throw new UnsupportedRuntimeError('brotli codec unavailable in the pure-JS backend');
+  if (dictionary && codec !== 'deflate-raw') {
+    throw new Error('Preset dictionaries require the deflate-raw codec');
+  }
+  return codec === 'gzip' ? gunzip(data, maxOutputBytes) : inflateRaw(data, dictionary, maxOutputBytes);
+}
+
+export { setBackend, Backend, BackendName, ByteTransform, Codec, OutputLimits };
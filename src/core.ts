@@ -0,0 +1,239 @@
+import { activeBackend, type Backend, type Codec, CODEC_IDS, codecFromId, compressBytesSync, decompressBytesSync } from './codecs';
+import { applyDelta, type BaseReference, findBase } from './delta';
+import { getDictionary, HTML_DICTIONARY_ID } from './dictionary';
+import { ALPHABETS } from './encoding';
+import { encodeKey, generateKey } from './encryption';
+import { MissingMimeTypeError, PayloadTooLargeError, PayloadTypeError, UnsupportedRuntimeError } from './errors';
+import { FLAG_CODEC_MASK, FLAG_DICTIONARY, FLAG_ENCRYPTED, FLAG_METADATA, FLAG_TEMPLATE, type PayloadHeader, decodePayload, encodePayload } from './header';
+import { checkExpiry, type PayloadMetadata, readMetadata } from './metadata';
+import { joinChunks, splitPayload } from './shard';
+import { buildShareUrl } from './shareUrl';
+import { expandTemplate, type TemplateReference } from './template';
+import { decodeContent, encodeContent } from './stream';
+import type { CompressOptions, CompressResult, DecompressOptions, DecompressResult } from './types';
+
+interface PackOptions extends Pick<CompressOptions, 'maxSize' | 'codec' | 'dictionary' | 'alphabet' | 'encrypt' | 'sign' | 'shard' | 'shareUrl'> {
+  // Content-level flags stored in the header next to the codec
+  flags?: number;
+  // Whether the built-in HTML dictionary is tried when no dictionary is given
+  html?: boolean;
+  // Base document the content is a delta against, written where a dictionary id would go
+  base?: BaseReference;
+}
+
+interface UnpackedContent {
+  header: PayloadHeader;
+  content: Uint8Array;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+interface Candidate {
+  codec: Codec;
+  dictionaryId?: number;
+}
+
+interface PackedCandidate extends Candidate {
+  payload: string;
+}
+
+// The synchronous API runs on the pure-JS codec, which has dictionaries but no brotli
+const SYNC_SUPPORT: Pick<Backend, 'codecs' | 'dictionaries'> = { codecs: ['gzip', 'deflate-raw'], dictionaries: true };
+
+// Validates the options and lists the codec and dictionary pairs to try with what
+// the backend supports
+function planCandidates(options: PackOptions, support: Pick<Backend, 'codecs' | 'dictionaries'>): { candidates: Candidate[]; dictionaryBytes?: Uint8Array } {
+  const { codec = 'auto', dictionary, alphabet = 'default', html = false, base } = options;
+  const codecSupported = (candidate: Codec) => support.codecs.includes(candidate);
+  const dictionarySupported = support.dictionaries;
+
+  if (codec !== 'auto' && !(codec in CODEC_IDS)) {
+    throw new Error('Invalid codec: use "gzip", "deflate-raw", "brotli" or "auto"');
+  }
+  if (!(alphabet in ALPHABETS)) {
+    throw new Error(`Unknown alphabet profile: ${alphabet}`);
+  }
+  if (base && typeof dictionary === 'number') {
+    throw new Error('The base option cannot be combined with a preset dictionary');
+  }
+  // HTML gets the built-in dictionary unless told otherwise. An explicit dictionary
+  // must be usable, while the default one is skipped where it cannot apply. Delta
+  // payloads use the header slot of the dictionary for their base.
+  const explicitDictionary = dictionary !== undefined;
+  const dictionaryId = base ? false : explicitDictionary ? dictionary : html ? HTML_DICTIONARY_ID : false;
+  const dictionaryBytes = dictionaryId === false ? undefined : getDictionary(dictionaryId);
+  if (dictionaryId !== false && explicitDictionary) {
+    if (codec !== 'auto' && codec !== 'deflate-raw') {
+      throw new Error('Preset dictionaries require the deflate-raw codec');
+    }
+    if (!dictionarySupported) {
+      throw new UnsupportedRuntimeError('Preset dictionary compression unavailable in this runtime');
+    }
+  }
+
+  // 'auto' compresses with every codec the runtime offers and keeps the shortest payload
+  const candidates: Candidate[] = (codec === 'auto'
+    ? (Object.keys(CODEC_IDS) as Codec[]).filter(codecSupported)
+    : [codec]).map(candidate => ({ codec: candidate }));
+  if (dictionaryId !== false && dictionarySupported && (codec === 'auto' || codec === 'deflate-raw')) {
+    candidates.push({ codec: 'deflate-raw', dictionaryId });
+  }
+  return { candidates, dictionaryBytes };
+}
+
+function candidateHeader(candidate: Candidate, options: PackOptions): Omit<PayloadHeader, 'format' | 'signature'> {
+  const { alphabet = 'default', flags = 0, base } = options;
+  return {
+    alphabet,
+    flags: flags | CODEC_IDS[candidate.codec] | (candidate.dictionaryId !== undefined || base ? FLAG_DICTIONARY : 0),
+    dictionaryId: candidate.dictionaryId,
+    base,
+  };
+}
+
+function shortest(best: PackedCandidate | undefined, next: PackedCandidate): PackedCandidate {
+  return !best || next.payload.length < best.payload.length ? next : best;
+}
+
+// Share URL, sharding and the size limit, once the payload is final
+function finishPack(best: PackedCandidate, options: PackOptions, encryptionKey?: string): CompressResult {
+  const { maxSize = 2083, shard = false, shareUrl } = options;
+  const { payload } = best;
+  const size = payload.length;
+  // A random or raw key rides in the share URL fragment, which browsers never send to the server
+  const toUrl = (text: string) => buildShareUrl(shareUrl!.base, text, { key: encryptionKey, ...shareUrl });
+  const url = shareUrl ? toUrl(payload) : undefined;
+  const result: CompressResult = { payload, size, codec: best.codec, dictionary: best.dictionaryId };
+  if (encryptionKey) result.encryptionKey = encryptionKey;
+  if (url) result.url = url;
+
+  if (shard) {
+    result.chunks = splitPayload(payload, maxSize, shareUrl ? text => toUrl(text).length : undefined);
+    if (shareUrl) result.chunkUrls = result.chunks.map(toUrl);
+    return result;
+  }
+  if (url && url.length > maxSize) {
+    throw new PayloadTooLargeError(`Share URL (${url.length} chars) exceeds max URL size (${maxSize} chars)`, url.length, maxSize);
+  }
+  if (size > maxSize) {
+    throw new PayloadTooLargeError(`Compressed payload (${size} chars) exceeds max URL size (${maxSize} chars)`, size, maxSize);
+  }
+
+  return result;
+}
+
+// Compresses content bytes, writes the header and enforces the size limit. This is
+// the shared back half of compressToUrl and every other payload producer.
+export async function packContent(content: Uint8Array, options: PackOptions = {}): Promise<CompressResult> {
+  const { encrypt, sign } = options;
+  const { candidates, dictionaryBytes } = planCandidates(options, await activeBackend());
+  if (!candidates.length) throw new UnsupportedRuntimeError('No compression codec available in this runtime');
+
+  const key = encrypt === true ? await generateKey() : encrypt;
+  const encode = (candidate: Candidate, seal: boolean) => encodeContent(content, {
+    header: candidateHeader(candidate, options),
+    codec: candidate.codec,
+    dictionary: candidate.dictionaryId !== undefined ? dictionaryBytes : undefined,
+    encrypt: seal ? key : undefined,
+    sign: seal ? sign : undefined,
+  });
+  // Encryption and signing add a fixed number of bytes, and a passphrase takes a
+  // slow key derivation, so with several candidates the shortest one is picked
+  // first and only the winner is encoded again, encrypted and signed.
+  const sealFirst = candidates.length === 1;
+  let best: PackedCandidate | undefined;
+  for (const candidate of candidates) {
+    best = shortest(best, { ...candidate, payload: await encode(candidate, sealFirst) });
+  }
+  if (!sealFirst && (key !== undefined || sign !== undefined)) {
+    best!.payload = await encode(best!, true);
+  }
+  return finishPack(best!, options, key instanceof Uint8Array ? encodeKey(key) : undefined);
+}
+
+export function packContentSync(content: Uint8Array, options: PackOptions = {}): CompressResult {
+  if (options.encrypt !== undefined || options.sign !== undefined) {
+    throw new Error('Signing and encryption run on async Web Crypto; use compressToUrl');
+  }
+  const { candidates, dictionaryBytes } = planCandidates(options, SYNC_SUPPORT);
+  let best: PackedCandidate | undefined;
+  for (const candidate of candidates) {
+    const useDictionary = candidate.dictionaryId !== undefined;
+    const compressedBytes = compressBytesSync(content, candidate.codec, useDictionary ? dictionaryBytes : undefined);
+    best = shortest(best, { ...candidate, payload: encodePayload(candidateHeader(candidate, options), compressedBytes) });
+  }
+  return finishPack(best!, options);
+}
+
+// Accepts a payload or the chunks of a sharded payload in any order
+export function unpackContent(payload: string | string[], options: Omit<DecompressOptions, 'outputType'> = {}): Promise<UnpackedContent> {
+  const { verify, decrypt, maxOutputBytes, timeoutMs, signal } = options;
+  return decodeContent(typeof payload === 'string' ? payload : joinChunks(payload), { verify, decrypt, maxOutputBytes, timeoutMs, signal });
+}
+
+export function unpackContentSync(payload: string | string[], options: Pick<DecompressOptions, 'maxOutputBytes' | 'verify'> = {}): UnpackedContent {
+  if (options.verify !== undefined) {
+    throw new Error('Signature checks run on async Web Crypto; use decompressFromUrl');
+  }
+  const { header, body } = decodePayload(typeof payload === 'string' ? payload : joinChunks(payload));
+  if (header.flags & FLAG_ENCRYPTED) {
+    throw new PayloadTypeError('Encrypted payloads need decompressFromUrl');
+  }
+  const dictionaryBytes = header.dictionaryId === undefined ? undefined : getDictionary(header.dictionaryId);
+  const content = decompressBytesSync(body, codecFromId(header.flags & FLAG_CODEC_MASK), dictionaryBytes, options.maxOutputBytes);
+  return { header, content };
+}
+
+// Content of a single-document payload is the MIME type, a colon, then the data
+export function joinMimeType(mimeType: string, data: Uint8Array): Uint8Array {
+  const mimePrefixBytes = encoder.encode(`${mimeType}:`);
+  const fullData = new Uint8Array(mimePrefixBytes.length + data.length);
+  fullData.set(mimePrefixBytes);
+  fullData.set(data, mimePrefixBytes.length);
+  return fullData;
+}
+
+export function splitMimeType(content: Uint8Array): { mimeType: string; data: Uint8Array } {
+  // Find the colon byte (ASCII 58) to separate MIME type and data
+  const colonIndex = content.indexOf(58);
+  if (colonIndex === -1) {
+    throw new MissingMimeTypeError();
+  }
+  return { mimeType: decoder.decode(content.subarray(0, colonIndex)), data: content.subarray(colonIndex + 1) };
+}
+
+export function isTextMimeType(mimeType: string): boolean {
+  return mimeType.startsWith('text/') || mimeType === 'application/json';
+}
+
+export function decodeData(data: Uint8Array, mimeType: string, outputType: DecompressOptions['outputType'] = 'auto'): string | Uint8Array {
+  const returnAsString = outputType === 'string' || (outputType === 'auto' && isTextMimeType(mimeType));
+  return returnAsString ? decoder.decode(data) : data;
+}
+
+// Reads the content of a single-document payload: the metadata block, if any,
+// then the MIME type and the data, or a template record to expand. Delta data
+// is applied to its base document.
+export function readDocument(header: PayloadHeader, content: Uint8Array, options: Pick<DecompressOptions, 'outputType' | 'allowExpired' | 'base' | 'maxOutputBytes'> = {}): DecompressResult {
+  let metadata: PayloadMetadata | undefined;
+  if (header.flags & FLAG_METADATA) {
+    const block = readMetadata(content);
+    checkExpiry(block.metadata, options.allowExpired);
+    metadata = block.metadata;
+    content = content.subarray(block.end);
+  }
+  let template: TemplateReference | undefined;
+  let document: { mimeType: string; data: Uint8Array };
+  if (header.flags & FLAG_TEMPLATE) {
+    ({ template, ...document } = expandTemplate(content));
+  } else {
+    document = splitMimeType(content);
+    if (header.base) document.data = applyDelta(findBase(header.base, options.base), document.data, options.maxOutputBytes);
+  }
+  const { mimeType, data } = document;
+  const result: DecompressResult = { data: decodeData(data, mimeType, options.outputType), mimeType };
+  if (metadata) result.metadata = metadata;
+  if (template) result.template = template;
+  return result;
+}
@@ -0,0 +1,106 @@
+import { deflateRawSync, gunzipSync, gzipSync, inflateRawSync } from 'node:zlib';
+import { compressToUrl, compressToUrlSync, decompressFromUrl, decompressFromUrlSync, DecompressionLimitError, HTML_DICTIONARY_ID, PayloadTypeError, setBackend } from './index';
+import { deflateRaw, gunzip, gzip, inflateRaw } from './deflate';
+
+const encoder = new TextEncoder();
+
+// Mixed input: repeated markup, a long run and bytes that do not repeat
+function sampleBytes(): Uint8Array {
+    const text = '<section><h2>Title</h2><p>Lorem ipsum dolor sit amet.</p></section>\n'.repeat(200);
+    const bytes = new Uint8Array(text.length + 70000);
+    bytes.set(encoder.encode(text));
+    let seed = 1;
+    for (let i = text.length + 40000; i < bytes.length; i++) {
+        seed = (seed * 1103515245 + 12345) >>> 0;
+        bytes[i] = seed >>> 24;
+    }
+    return bytes;
+}
+
+describe('deflate', () => {
+    // Test 1: Round trip through the pure-JS codec
+    it.each([
+        ['empty', new Uint8Array(0)],
+        ['single byte', new Uint8Array([42])],
+        ['mixed', sampleBytes()],
+    ])('round-trips %s input', (_name, data) => {
+        expect(inflateRaw(deflateRaw(data))).toEqual(data);
+        expect(gunzip(gzip(data))).toEqual(data);
+    });
+
+    // Test 2: Streams are interchangeable with zlib
+    it('reads zlib output and writes streams zlib reads', () => {
+        const data = sampleBytes();
+        expect(inflateRaw(deflateRawSync(data, { level: 1 }))).toEqual(data);
+        expect(gunzip(gzipSync(data))).toEqual(data);
+        expect(new Uint8Array(inflateRawSync(deflateRaw(data)))).toEqual(data);
+        expect(new Uint8Array(gunzipSync(gzip(data)))).toEqual(data);
+    });
+
+    // Test 3: Preset dictionaries
+    it('compresses against a preset dictionary', () => {
+        const dictionary = encoder.encode('<meta property="og:title" content="');
+        const data = encoder.encode('<meta property="og:title" content="Hello">');
+        const compressed = deflateRaw(data, dictionary);
+        expect(compressed.length).toBeLessThan(deflateRaw(data).length);
+        expect(inflateRaw(compressed, dictionary)).toEqual(data);
+        expect(new Uint8Array(inflateRawSync(compressed, { dictionary }))).toEqual(data);
+    });
+
+    // Test 4: Corrupt data and output limits
+    it('rejects corrupt data and stops at maxOutputBytes', () => {
+        const compressed = gzip(sampleBytes());
+        expect(() => gunzip(compressed.subarray(0, compressed.length - 4))).toThrow();
+        expect(() => inflateRaw(new Uint8Array([0xff, 0xff]))).toThrow();
+        expect(() => inflateRaw(deflateRaw(new Uint8Array(100000)), undefined, 1000)).toThrow(DecompressionLimitError);
+    });
+
+    describe('backends and sync API', () => {
+        afterEach(() => setBackend('auto'));
+
+        // Test 5: Payloads made on the pure-JS backend decode anywhere
+        it('produces payloads the native backends decode', async () => {
+            const input = '<!DOCTYPE html><html><head><title>Hi</title></head><body><p>Hello</p></body></html>';
+            setBackend('pure-js');
+            const { payload, codec } = await compressToUrl(input);
+            expect(codec).not.toBe('brotli');
+            expect((await decompressFromUrl(payload)).data).toBe(input);
+            setBackend('auto');
+            expect((await decompressFromUrl(payload)).data).toBe(input);
+        });
+
+        // Test 6: Native payloads decode on the pure-JS backend
+        it('decodes native payloads on the pure-JS backend', async () => {
+            const input = 'Hello, world! '.repeat(20);
+            const gzipped = await compressToUrl(input, { codec: 'gzip' });
+            const withDictionary = await compressToUrl(input, { codec: 'deflate-raw', dictionary: HTML_DICTIONARY_ID });
+            setBackend('pure-js');
+            expect((await decompressFromUrl(gzipped.payload)).data).toBe(input);
+            expect((await decompressFromUrl(withDictionary.payload)).data).toBe(input);
+            await expect(compressToUrl(input, { codec: 'brotli' })).rejects.toThrow();
+            expect(() => setBackend('zstd' as any)).toThrow('Invalid backend');
+        });
+
+        // Test 7: Synchronous round trip
+        it('compresses and decompresses synchronously', async () => {
+            const input = '<div><p>Synchronous</p></div>';
+            const compressed = compressToUrlSync(input, { shareUrl: { base: 'https://example.com/' } });
+            expect(compressed.url).toContain(compressed.payload.slice(0, 4));
+            expect(decompressFromUrlSync(compressed.payload)).toEqual({ data: input, mimeType: 'text/html' });
+            expect((await decompressFromUrl(compressed.payload)).data).toBe(input);
+
+            const binary = new Uint8Array([1, 2, 3]);
+            const { payload } = await compressToUrl(binary, { inputType: 'binary', codec: 'gzip' });
+            expect(decompressFromUrlSync(payload).data).toEqual(binary);
+        });
+
+        // Test 8: What the sync API cannot do
+        it('rejects brotli, signing and encryption in the sync API', async () => {
+            const { payload } = await compressToUrl('Hello', { encrypt: true });
+            expect(() => decompressFromUrlSync(payload)).toThrow(PayloadTypeError);
+            expect(() => compressToUrlSync('Hello', { sign: 'secret' } as any)).toThrow('use compressToUrl');
+            expect(() => compressToUrlSync('Hello', { codec: 'brotli' })).toThrow();
+            expect(() => decompressFromUrlSync(compressToUrlSync('x'.repeat(5000), { maxSize: Infinity }).payload, { maxOutputBytes: 100 })).toThrow(DecompressionLimitError);
+        });
+    });
+});
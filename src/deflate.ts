@@ -0,0 +1,615 @@
+// Pure TypeScript deflate and inflate (RFC 1951) with the gzip wrapper (RFC 1952),
+// for runtimes that have neither node zlib nor CompressionStream. The output is
+// standard deflate that every backend reads, although not the exact bytes zlib
+// would write.
+
+import { crc32 } from './checksum';
+import { CorruptPayloadError, DecompressionLimitError } from './errors';
+
+const WINDOW_SIZE = 32768;
+const WINDOW_MASK = WINDOW_SIZE - 1;
+const HASH_BITS = 15;
+const HASH_SIZE = 1 << HASH_BITS;
+const MIN_MATCH = 3;
+const MAX_MATCH = 258;
+// Search effort close to zlib level 9
+const MAX_CHAIN = 1024;
+const GOOD_LENGTH = 32;
+const NICE_LENGTH = 258;
+// A 3-byte match further back than this costs more than three literals
+const TOO_FAR = 4096;
+// Symbols per block before its Huffman codes are rebuilt
+const BLOCK_SYMBOLS = 1 << 15;
+const MAX_STORED = 65535;
+
+const LENGTH_BASE = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258];
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+const DIST_BASE = [1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577];
+const DIST_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+// Order in which the lengths of the code length code are stored
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+// Length 3..258 to its index in LENGTH_BASE
+const LENGTH_CODE = new Uint8Array(MAX_MATCH + 1);
+for (let code = 0; code < LENGTH_BASE.length; code++) {
+  for (let length = LENGTH_BASE[code]; length < LENGTH_BASE[code] + (1 << LENGTH_EXTRA[code]) && length <= MAX_MATCH; length++) {
+    LENGTH_CODE[length] = code;
+  }
+}
+
+// Distance codes from 16 up cover whole multiples of 128, so distances past 256
+// are looked up by their high bits, as zlib does.
+const DIST_CODE = new Uint8Array(512);
+for (let code = 0; code < DIST_BASE.length; code++) {
+  for (let distance = DIST_BASE[code]; distance < DIST_BASE[code] + (1 << DIST_EXTRA[code]); distance++) {
+    const index = distance - 1 < 256 ? distance - 1 : 256 + ((distance - 1) >> 7);
+    DIST_CODE[index] = code;
+  }
+}
+
+function distanceCode(distance: number): number {
+  return DIST_CODE[distance - 1 < 256 ? distance - 1 : 256 + ((distance - 1) >> 7)];
+}
+
+const FIXED_LIT_LENGTHS = new Uint8Array(288).map((_, symbol) => (symbol < 144 ? 8 : symbol < 256 ? 9 : symbol < 280 ? 7 : 8));
+const FIXED_DIST_LENGTHS = new Uint8Array(30).fill(5);
+
+// ---------------------------------------------------------------------------
+// Inflate
+
+interface Huffman {
+  counts: Uint16Array;
+  symbols: Uint16Array;
+}
+
+interface BitReader {
+  data: Uint8Array;
+  position: number;
+  bitBuffer: number;
+  bitCount: number;
+}
+
+function readBits(reader: BitReader, count: number): number {
+  while (reader.bitCount < count) {
+    if (reader.position >= reader.data.length) throw new CorruptPayloadError('Compressed data is truncated');
+    reader.bitBuffer |= reader.data[reader.position++] << reader.bitCount;
+    reader.bitCount += 8;
+  }
+  const value = reader.bitBuffer & ((1 << count) - 1);
+  reader.bitBuffer >>>= count;
+  reader.bitCount -= count;
+  return value;
+}
+
+function buildHuffman(lengths: ArrayLike<number>): Huffman {
+  const counts = new Uint16Array(16);
+  for (let i = 0; i < lengths.length; i++) counts[lengths[i]]++;
+  counts[0] = 0;
+  let left = 1;
+  for (let length = 1; length <= 15; length++) {
+    left = (left << 1) - counts[length];
+    if (left < 0) throw new CorruptPayloadError('Compressed data has an invalid Huffman code');
+  }
+  const offsets = new Uint16Array(16);
+  for (let length = 1; length < 15; length++) offsets[length + 1] = offsets[length] + counts[length];
+  const symbols = new Uint16Array(lengths.length);
+  for (let symbol = 0; symbol < lengths.length; symbol++) {
+    if (lengths[symbol]) symbols[offsets[lengths[symbol]]++] = symbol;
+  }
+  return { counts, symbols };
+}
+
+// Canonical codes are read one bit at a time, comparing against the first code of
+// each length.
+function decodeSymbol(reader: BitReader, huffman: Huffman): number {
+  let code = 0;
+  let first = 0;
+  let index = 0;
+  for (let length = 1; length <= 15; length++) {
+    code |= readBits(reader, 1);
+    const count = huffman.counts[length];
+    if (code - first < count) return huffman.symbols[index + code - first];
+    index += count;
+    first = (first + count) << 1;
+    code <<= 1;
+  }
+  throw new CorruptPayloadError('Compressed data has an invalid Huffman code');
+}
+
+let fixedCodes: { literals: Huffman; distances: Huffman } | undefined;
+
+function readDynamicCodes(reader: BitReader): { literals: Huffman; distances: Huffman } {
+  const literalCount = readBits(reader, 5) + 257;
+  const distanceCount = readBits(reader, 5) + 1;
+  const codeLengthCount = readBits(reader, 4) + 4;
+  if (literalCount > 286 || distanceCount > 30) throw new CorruptPayloadError('Compressed data has too many codes');
+
+  const codeLengthLengths = new Uint8Array(19);
+  for (let i = 0; i < codeLengthCount; i++) codeLengthLengths[CODE_LENGTH_ORDER[i]] = readBits(reader, 3);
+  const codeLengthCode = buildHuffman(codeLengthLengths);
+
+  const lengths = new Uint8Array(literalCount + distanceCount);
+  for (let i = 0; i < lengths.length;) {
+    const symbol = decodeSymbol(reader, codeLengthCode);
+    if (symbol < 16) {
+      lengths[i++] = symbol;
+      continue;
+    }
+    let repeat: number;
+    let value = 0;
+    if (symbol === 16) {
+      if (i === 0) throw new CorruptPayloadError('Compressed data repeats a missing length');
+      value = lengths[i - 1];
+      repeat = 3 + readBits(reader, 2);
+    } else if (symbol === 17) {
+      repeat = 3 + readBits(reader, 3);
+    } else {
+      repeat = 11 + readBits(reader, 7);
+    }
+    if (i + repeat > lengths.length) throw new CorruptPayloadError('Compressed data has too many lengths');
+    lengths.fill(value, i, i + repeat);
+    i += repeat;
+  }
+  if (!lengths[256]) throw new CorruptPayloadError('Compressed data has no end-of-block code');
+  return {
+    literals: buildHuffman(lengths.subarray(0, literalCount)),
+    distances: buildHuffman(lengths.subarray(literalCount)),
+  };
+}
+
+// Inflates raw deflate data starting at `start`. The dictionary primes the window
+// and is not part of the result. Returns where the deflate data ended.
+function inflate(data: Uint8Array, start: number, dictionary: Uint8Array | undefined, maxOutputBytes: number): { bytes: Uint8Array; end: number } {
+  const reader: BitReader = { data, position: start, bitBuffer: 0, bitCount: 0 };
+  const offset = dictionary?.length ?? 0;
+  let output = new Uint8Array(Math.max(offset + data.length * 4, 1024));
+  let length = 0;
+  if (dictionary) {
+    output.set(dictionary);
+    length = offset;
+  }
+
+  const reserve = (count: number) => {
+    if (length + count - offset > maxOutputBytes) {
+      throw new DecompressionLimitError(`Decompressed output exceeds maxOutputBytes (${maxOutputBytes} bytes)`, 'maxOutputBytes');
+    }
+    if (length + count <= output.length) return;
+    const grown = new Uint8Array(Math.max(output.length * 2, length + count));
+    grown.set(output.subarray(0, length));
+    output = grown;
+  };
+
+  let last = 0;
+  while (!last) {
+    last = readBits(reader, 1);
+    const type = readBits(reader, 2);
+    if (type === 0) {
+      // Stored block: skip to the byte boundary, then LEN and its complement
+      reader.bitBuffer = 0;
+      reader.bitCount = 0;
+      const { position } = reader;
+      if (position + 4 > data.length) throw new CorruptPayloadError('Compressed data is truncated');
+      const size = data[position] | (data[position + 1] << 8);
+      if ((size ^ 0xffff) !== (data[position + 2] | (data[position + 3] << 8))) {
+        throw new CorruptPayloadError('Compressed data has a corrupt stored block');
+      }
+      if (position + 4 + size > data.length) throw new CorruptPayloadError('Compressed data is truncated');
+      reserve(size);
+      output.set(data.subarray(position + 4, position + 4 + size), length);
+      length += size;
+      reader.position = position + 4 + size;
+      continue;
+    }
+    if (type === 3) throw new CorruptPayloadError('Compressed data has an invalid block type');
+
+    let codes: { literals: Huffman; distances: Huffman };
+    if (type === 1) {
+      fixedCodes ??= { literals: buildHuffman(FIXED_LIT_LENGTHS), distances: buildHuffman(FIXED_DIST_LENGTHS) };
+      codes = fixedCodes;
+    } else {
+      codes = readDynamicCodes(reader);
+    }
+
+    while (true) {
+      const symbol = decodeSymbol(reader, codes.literals);
+      if (symbol < 256) {
+        reserve(1);
+        output[length++] = symbol;
+        continue;
+      }
+      if (symbol === 256) break;
+      const lengthIndex = symbol - 257;
+      if (lengthIndex >= 29) throw new CorruptPayloadError('Compressed data has an invalid length code');
+      const matchLength = LENGTH_BASE[lengthIndex] + readBits(reader, LENGTH_EXTRA[lengthIndex]);
+      const distanceIndex = decodeSymbol(reader, codes.distances);
+      if (distanceIndex >= 30) throw new CorruptPayloadError('Compressed data has an invalid distance code');
+      const distance = DIST_BASE[distanceIndex] + readBits(reader, DIST_EXTRA[distanceIndex]);
+      if (distance > length) throw new CorruptPayloadError('Compressed data refers before its start');
+      reserve(matchLength);
+      // Byte by byte, since a match may overlap the bytes it produces
+      for (let i = 0; i < matchLength; i++, length++) output[length] = output[length - distance];
+    }
+  }
+  return { bytes: output.slice(offset, length), end: reader.position };
+}
+
+export function inflateRaw(data: Uint8Array, dictionary?: Uint8Array, maxOutputBytes: number = Infinity): Uint8Array {
+  return inflate(data, 0, dictionary, maxOutputBytes).bytes;
+}
+
+export function gunzip(data: Uint8Array, maxOutputBytes: number = Infinity): Uint8Array {
+  if (data.length < 18 || data[0] !== 0x1f || data[1] !== 0x8b || data[2] !== 8) {
+    throw new CorruptPayloadError('Compressed data is not gzip');
+  }
+  const flags = data[3];
+  let position = 10;
+  if (flags & 4) position += 2 + (data[position] | (data[position + 1] << 8));
+  // File name and comment are zero-terminated
+  for (const flag of [8, 16]) {
+    if (flags & flag) {
+      while (position < data.length && data[position]) position++;
+      position++;
+    }
+  }
+  if (flags & 2) position += 2;
+  if (position >= data.length) throw new CorruptPayloadError('Compressed data is truncated');
+
+  const { bytes, end } = inflate(data, position, undefined, maxOutputBytes);
+  if (end + 8 > data.length) throw new CorruptPayloadError('Compressed data is truncated');
+  const view = new DataView(data.buffer, data.byteOffset + end, 8);
+  if (view.getUint32(0, true) !== crc32(bytes) || view.getUint32(4, true) !== bytes.length % 2 ** 32) {
+    throw new CorruptPayloadError('Compressed data fails its gzip checksum');
+  }
+  return bytes;
+}
+
+// ---------------------------------------------------------------------------
+// Deflate
+
+interface BitWriter {
+  bytes: Uint8Array;
+  length: number;
+  bitBuffer: number;
+  bitCount: number;
+}
+
+function writeBits(writer: BitWriter, value: number, count: number) {
+  writer.bitBuffer |= value << writer.bitCount;
+  writer.bitCount += count;
+  while (writer.bitCount >= 8) {
+    if (writer.length === writer.bytes.length) {
+      const grown = new Uint8Array(writer.bytes.length * 2);
+      grown.set(writer.bytes);
+      writer.bytes = grown;
+    }
+    writer.bytes[writer.length++] = writer.bitBuffer & 0xff;
+    writer.bitBuffer >>>= 8;
+    writer.bitCount -= 8;
+  }
+}
+
+function alignToByte(writer: BitWriter) {
+  if (writer.bitCount) writeBits(writer, 0, 8 - writer.bitCount);
+}
+
+// Huffman code lengths capped at maxBits. Codes that come out too long are
+// shortened and the Kraft sum repaired by lengthening the least frequent codes,
+// then any room left goes back to the most frequent ones.
+function huffmanLengths(frequencies: ArrayLike<number>, maxBits: number): Uint8Array {
+  const lengths = new Uint8Array(frequencies.length);
+  const used: number[] = [];
+  for (let symbol = 0; symbol < frequencies.length; symbol++) {
+    if (frequencies[symbol]) used.push(symbol);
+  }
+  if (!used.length) return lengths;
+  if (used.length === 1) {
+    // A lone code is paired with an unused one so the code stays complete
+    lengths[used[0]] = 1;
+    lengths[used[0] === 0 ? 1 : 0] = 1;
+    return lengths;
+  }
+  used.sort((a, b) => frequencies[a] - frequencies[b] || a - b);
+
+  // Two-queue construction: leaves in weight order, then internal nodes, which
+  // are created in weight order as well
+  const count = used.length;
+  const weights = new Float64Array(2 * count - 1);
+  const parents = new Int32Array(2 * count - 1);
+  used.forEach((symbol, i) => (weights[i] = frequencies[symbol]));
+  let leaf = 0;
+  let node = count;
+  const takeSmallest = (next: number) => (leaf < count && (node >= next || weights[leaf] <= weights[node]) ? leaf++ : node++);
+  for (let next = count; next < 2 * count - 1; next++) {
+    const first = takeSmallest(next);
+    const second = takeSmallest(next);
+    weights[next] = weights[first] + weights[second];
+    parents[first] = next;
+    parents[second] = next;
+  }
+  const depths = new Uint8Array(2 * count - 1);
+  for (let i = 2 * count - 3; i >= 0; i--) depths[i] = depths[parents[i]] + 1;
+
+  const limit = 1 << maxBits;
+  let kraft = 0;
+  for (let i = 0; i < count; i++) {
+    lengths[used[i]] = Math.min(depths[i], maxBits);
+    kraft += 1 << (maxBits - lengths[used[i]]);
+  }
+  while (kraft > limit) {
+    const symbol = used.find(candidate => lengths[candidate] < maxBits)!;
+    lengths[symbol]++;
+    kraft -= 1 << (maxBits - lengths[symbol]);
+  }
+  for (let i = count - 1; i >= 0; i--) {
+    const symbol = used[i];
+    while (lengths[symbol] > 1 && kraft + (1 << (maxBits - lengths[symbol])) <= limit) {
+      kraft += 1 << (maxBits - lengths[symbol]);
+      lengths[symbol]--;
+    }
+  }
+  return lengths;
+}
+
+// Canonical codes, bit-reversed since deflate writes Huffman codes from the top bit
+function canonicalCodes(lengths: Uint8Array): Uint16Array {
+  const counts = new Uint16Array(16);
+  for (const length of lengths) counts[length]++;
+  counts[0] = 0;
+  const next = new Uint16Array(16);
+  for (let length = 1, code = 0; length <= 15; length++) {
+    code = (code + counts[length - 1]) << 1;
+    next[length] = code;
+  }
+  const codes = new Uint16Array(lengths.length);
+  for (let symbol = 0; symbol < lengths.length; symbol++) {
+    const length = lengths[symbol];
+    if (!length) continue;
+    let code = next[length]++;
+    let reversed = 0;
+    for (let i = 0; i < length; i++, code >>= 1) reversed = (reversed << 1) | (code & 1);
+    codes[symbol] = reversed;
+  }
+  return codes;
+}
+
+// Run-length encodes the literal and distance code lengths with symbols 16-18.
+// Each entry is [symbol, extra bits value, extra bit count].
+function encodeLengths(lengths: Uint8Array): [number, number, number][] {
+  const result: [number, number, number][] = [];
+  for (let i = 0; i < lengths.length;) {
+    const value = lengths[i];
+    let run = 1;
+    while (i + run < lengths.length && lengths[i + run] === value) run++;
+    i += run;
+    if (value === 0) {
+      while (run >= 11) {
+        const repeat = Math.min(run, 138);
+        result.push([18, repeat - 11, 7]);
+        run -= repeat;
+      }
+      if (run >= 3) {
+        result.push([17, run - 3, 3]);
+        run = 0;
+      }
+    } else {
+      result.push([value, 0, 0]);
+      run--;
+      while (run >= 3) {
+        const repeat = Math.min(run, 6);
+        result.push([16, repeat - 3, 2]);
+        run -= repeat;
+      }
+    }
+    for (; run > 0; run--) result.push([value, 0, 0]);
+  }
+  return result;
+}
+
+interface BlockSymbols {
+  // Match length, or 0 for a literal
+  lengths: Uint16Array;
+  // Match distance, or the literal byte
+  values: Uint16Array;
+  count: number;
+}
+
+function writeSymbols(writer: BitWriter, symbols: BlockSymbols, literalCodes: Uint16Array, literalLengths: Uint8Array, distanceCodes: Uint16Array, distanceLengths: Uint8Array) {
+  for (let i = 0; i < symbols.count; i++) {
+    const matchLength = symbols.lengths[i];
+    const value = symbols.values[i];
+    if (!matchLength) {
+      writeBits(writer, literalCodes[value], literalLengths[value]);
+      continue;
+    }
+    const lengthIndex = LENGTH_CODE[matchLength];
+    writeBits(writer, literalCodes[257 + lengthIndex], literalLengths[257 + lengthIndex]);
+    if (LENGTH_EXTRA[lengthIndex]) writeBits(writer, matchLength - LENGTH_BASE[lengthIndex], LENGTH_EXTRA[lengthIndex]);
+    const distanceIndex = distanceCode(value);
+    writeBits(writer, distanceCodes[distanceIndex], distanceLengths[distanceIndex]);
+    if (DIST_EXTRA[distanceIndex]) writeBits(writer, value - DIST_BASE[distanceIndex], DIST_EXTRA[distanceIndex]);
+  }
+  writeBits(writer, literalCodes[256], literalLengths[256]);
+}
+
+// Writes one block as stored, fixed or dynamic Huffman, whichever is smallest
+function writeBlock(writer: BitWriter, symbols: BlockSymbols, raw: Uint8Array, last: boolean) {
+  const literalFrequencies = new Uint32Array(286);
+  const distanceFrequencies = new Uint32Array(30);
+  let extraBits = 0;
+  for (let i = 0; i < symbols.count; i++) {
+    const matchLength = symbols.lengths[i];
+    if (!matchLength) {
+      literalFrequencies[symbols.values[i]]++;
+      continue;
+    }
+    const lengthIndex = LENGTH_CODE[matchLength];
+    const distanceIndex = distanceCode(symbols.values[i]);
+    literalFrequencies[257 + lengthIndex]++;
+    distanceFrequencies[distanceIndex]++;
+    extraBits += LENGTH_EXTRA[lengthIndex] + DIST_EXTRA[distanceIndex];
+  }
+  literalFrequencies[256] = 1;
+
+  const literalLengths = huffmanLengths(literalFrequencies, 15);
+  const distanceLengths = huffmanLengths(distanceFrequencies, 15);
+  if (!distanceFrequencies.some(Boolean)) {
+    // Some inflaters reject a block without any distance code
+    distanceLengths[0] = 1;
+    distanceLengths[1] = 1;
+  }
+  let literalCount = 286;
+  while (literalCount > 257 && !literalLengths[literalCount - 1]) literalCount--;
+  let distanceCount = 30;
+  while (distanceCount > 1 && !distanceLengths[distanceCount - 1]) distanceCount--;
+
+  const lengthSymbols = encodeLengths(new Uint8Array([...literalLengths.subarray(0, literalCount), ...distanceLengths.subarray(0, distanceCount)]));
+  const codeLengthFrequencies = new Uint32Array(19);
+  for (const [symbol] of lengthSymbols) codeLengthFrequencies[symbol]++;
+  const codeLengthLengths = huffmanLengths(codeLengthFrequencies, 7);
+  let codeLengthCount = 19;
+  while (codeLengthCount > 4 && !codeLengthLengths[CODE_LENGTH_ORDER[codeLengthCount - 1]]) codeLengthCount--;
+
+  let dynamicBits = 3 + 14 + 3 * codeLengthCount + extraBits;
+  for (const [symbol, , bits] of lengthSymbols) dynamicBits += codeLengthLengths[symbol] + bits;
+  let fixedBits = 3 + extraBits;
+  for (let symbol = 0; symbol < 286; symbol++) {
+    dynamicBits += literalFrequencies[symbol] * literalLengths[symbol];
+    fixedBits += literalFrequencies[symbol] * FIXED_LIT_LENGTHS[symbol];
+  }
+  for (let symbol = 0; symbol < 30; symbol++) {
+    dynamicBits += distanceFrequencies[symbol] * distanceLengths[symbol];
+    fixedBits += distanceFrequencies[symbol] * 5;
+  }
+  const storedBlocks = Math.max(1, Math.ceil(raw.length / MAX_STORED));
+  const storedBits = 8 * (raw.length + 5 * storedBlocks) + 7;
+
+  if (storedBits <= Math.min(fixedBits, dynamicBits)) {
+    for (let i = 0; i < storedBlocks; i++) {
+      const part = raw.subarray(i * MAX_STORED, (i + 1) * MAX_STORED);
+      writeBits(writer, last && i === storedBlocks - 1 ? 1 : 0, 3);
+      alignToByte(writer);
+      writeBits(writer, part.length & 0xffff, 16);
+      writeBits(writer, ~part.length & 0xffff, 16);
+      for (const byte of part) writeBits(writer, byte, 8);
+    }
+  } else if (fixedBits <= dynamicBits) {
+    writeBits(writer, last ? 0b011 : 0b010, 3);
+    writeSymbols(writer, symbols, canonicalCodes(FIXED_LIT_LENGTHS), FIXED_LIT_LENGTHS, canonicalCodes(FIXED_DIST_LENGTHS), FIXED_DIST_LENGTHS);
+  } else {
+    writeBits(writer, last ? 0b101 : 0b100, 3);
+    writeBits(writer, literalCount - 257, 5);
+    writeBits(writer, distanceCount - 1, 5);
+    writeBits(writer, codeLengthCount - 4, 4);
+    for (let i = 0; i < codeLengthCount; i++) writeBits(writer, codeLengthLengths[CODE_LENGTH_ORDER[i]], 3);
+    const codeLengthCodes = canonicalCodes(codeLengthLengths);
+    for (const [symbol, extra, bits] of lengthSymbols) {
+      writeBits(writer, codeLengthCodes[symbol], codeLengthLengths[symbol]);
+      if (bits) writeBits(writer, extra, bits);
+    }
+    writeSymbols(writer, symbols, canonicalCodes(literalLengths), literalLengths, canonicalCodes(distanceLengths), distanceLengths);
+  }
+}
+
+// LZ77 with hash chains and one step of lazy matching, after zlib's deflate_slow
+export function deflateRaw(data: Uint8Array, dictionary?: Uint8Array): Uint8Array {
+  const prefix = dictionary ? dictionary.subarray(Math.max(0, dictionary.length - WINDOW_SIZE)) : new Uint8Array(0);
+  const input = prefix.length ? new Uint8Array(prefix.length + data.length) : data;
+  if (prefix.length) {
+    input.set(prefix);
+    input.set(data, prefix.length);
+  }
+  const end = input.length;
+  const head = new Int32Array(HASH_SIZE).fill(-1);
+  const previous = new Int32Array(WINDOW_SIZE).fill(-1);
+  const hash = (position: number) => ((input[position] << 10) ^ (input[position + 1] << 5) ^ input[position + 2]) & (HASH_SIZE - 1);
+  const insert = (position: number) => {
+    if (position + MIN_MATCH > end) return;
+    const key = hash(position);
+    previous[position & WINDOW_MASK] = head[key];
+    head[key] = position;
+  };
+
+  // Longest match at `position` that beats `minLength`
+  let matchDistance = 0;
+  const findMatch = (position: number, minLength: number): number => {
+    const limit = Math.min(MAX_MATCH, end - position);
+    if (limit < MIN_MATCH) return 0;
+    let best = Math.max(minLength, MIN_MATCH - 1);
+    let chain = minLength >= GOOD_LENGTH ? MAX_CHAIN >> 2 : MAX_CHAIN;
+    let candidate = head[hash(position)];
+    let found = 0;
+    while (candidate >= 0 && position - candidate <= WINDOW_SIZE && chain-- > 0) {
+      if (input[candidate + best] === input[position + best] && input[candidate] === input[position]) {
+        let length = 1;
+        while (length < limit && input[candidate + length] === input[position + length]) length++;
+        if (length > best && !(length === MIN_MATCH && position - candidate > TOO_FAR)) {
+          best = length;
+          found = length;
+          matchDistance = position - candidate;
+          if (length >= Math.min(limit, NICE_LENGTH)) break;
+        }
+      }
+      const next = previous[candidate & WINDOW_MASK];
+      // Ring slots get reused, so a chain only ever goes backwards
+      if (next >= candidate) break;
+      candidate = next;
+    }
+    return found;
+  };
+
+  const writer: BitWriter = { bytes: new Uint8Array(Math.max(64, data.length >> 1)), length: 0, bitBuffer: 0, bitCount: 0 };
+  const symbols: BlockSymbols = { lengths: new Uint16Array(BLOCK_SYMBOLS), values: new Uint16Array(BLOCK_SYMBOLS), count: 0 };
+  let blockStart = prefix.length;
+  let position = prefix.length;
+  // A pending literal or match has not been pushed yet and opens the next block
+  const flush = (blockEnd: number, last: boolean) => {
+    writeBlock(writer, symbols, input.subarray(blockStart, blockEnd), last);
+    symbols.count = 0;
+    blockStart = blockEnd;
+  };
+  const push = (length: number, value: number) => {
+    symbols.lengths[symbols.count] = length;
+    symbols.values[symbols.count++] = value;
+  };
+
+  for (let i = 0; i < prefix.length; i++) insert(i);
+  let previousLength = 0;
+  let previousDistance = 0;
+  let pending = false;
+  while (position < end) {
+    const length = previousLength < NICE_LENGTH ? findMatch(position, previousLength) : 0;
+    const distance = matchDistance;
+    insert(position);
+    if (pending && previousLength >= MIN_MATCH && length <= previousLength) {
+      push(previousLength, previousDistance);
+      const matchEnd = position - 1 + previousLength;
+      for (let i = position + 1; i < matchEnd; i++) insert(i);
+      position = matchEnd;
+      previousLength = 0;
+      pending = false;
+    } else {
+      if (pending) push(0, input[position - 1]);
+      previousLength = length;
+      previousDistance = distance;
+      pending = true;
+      position++;
+    }
+    if (symbols.count >= BLOCK_SYMBOLS - 1) flush(pending ? position - 1 : position, false);
+  }
+  if (pending) push(0, input[position - 1]);
+  flush(end, true);
+  alignToByte(writer);
+  return writer.bytes.slice(0, writer.length);
+}
+
+export function gzip(data: Uint8Array): Uint8Array {
+  const body = deflateRaw(data);
+  const result = new Uint8Array(10 + body.length + 8);
+  // No file name or time; XFL 2 marks maximum compression, OS 255 is unknown
+  result.set([0x1f, 0x8b, 8, 0, 0, 0, 0, 0, 2, 255]);
+  result.set(body, 10);
+  const view = new DataView(result.buffer, 10 + body.length, 8);
+  view.setUint32(0, crc32(data), true);
+  view.setUint32(4, data.length % 2 ** 32, true);
+  return result;
+}
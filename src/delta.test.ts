@@ -0,0 +1,69 @@
+import { applyDelta, encodeDelta } from './delta';
+import { BaseDocumentError, compressToUrl, compressToUrlSync, createDecompressStream, DecompressionLimitError, decompressFromUrl, decompressFromUrlSync, PayloadTypeError, registerBase } from './index';
+
+describe('delta payloads', () => {
+    const sections = Array.from({ length: 40 }, (_, i) => `<section id="s${i}"><h2>Feature ${i}</h2><p>Feature ${i} helps teams ship landing pages faster.</p></section>`);
+    const base = `<!DOCTYPE html><html><head><title>Landing</title></head><body>${sections.join('\n')}</body></html>`;
+    const variant = base.replace('<title>Landing</title>', '<title>Landing for Ada</title>').replace('Feature 17 helps', 'Feature 17 really helps');
+    const encoder = new TextEncoder();
+
+    // Test 1: Delta encoding
+    it('encodes only the difference to the base', () => {
+        const baseBytes = encoder.encode(base);
+        const target = encoder.encode(variant);
+        const delta = encodeDelta(baseBytes, target);
+        expect(delta.length).toBeLessThan(80);
+        expect(applyDelta(baseBytes, delta)).toEqual(target);
+        expect(applyDelta(baseBytes, encodeDelta(baseBytes, new Uint8Array(0)))).toEqual(new Uint8Array(0));
+        const unrelated = encoder.encode('nothing in common');
+        expect(applyDelta(baseBytes, encodeDelta(baseBytes, unrelated))).toEqual(unrelated);
+        expect(() => applyDelta(baseBytes, encodeDelta(baseBytes, target), 100)).toThrow(DecompressionLimitError);
+    });
+
+    // Test 2: Bases passed as documents are referenced by hash
+    it('round-trips against a base passed by the reader', async () => {
+        const { payload } = await compressToUrl(variant, { base });
+        expect(payload.length).toBeLessThan((await compressToUrl(variant)).payload.length / 3);
+        expect((await decompressFromUrl(payload, { base })).data).toBe(variant);
+        expect(decompressFromUrlSync(compressToUrlSync(variant, { base }).payload, { base }).data).toBe(variant);
+    });
+
+    // Test 3: Registered bases
+    it('resolves registered bases by id and by hash', async () => {
+        registerBase(7, base);
+        expect(() => registerBase(7, base)).toThrow('Base id 7 is already registered');
+        const byId = await compressToUrl(variant, { base: 7, metadata: { title: 'Ada' }, sign: 'key' });
+        const result = await decompressFromUrl(byId.payload, { verify: 'key' });
+        expect(result).toEqual({ data: variant, mimeType: 'text/html', metadata: { title: 'Ada' } });
+        const byHash = await compressToUrl(variant, { base });
+        expect((await decompressFromUrl(byHash.payload)).data).toBe(variant);
+    });
+
+    // Test 4: Missing and mismatched bases
+    it('throws BaseDocumentError for missing or different bases', async () => {
+        const other = `${base}<!-- v2 -->`;
+        const { payload } = await compressToUrl(variant, { base: other });
+        const missing = await decompressFromUrl(payload).catch(error => error);
+        expect(missing).toBeInstanceOf(BaseDocumentError);
+        expect(missing.code).toBe('INVALID_BASE');
+        expect(missing.reason).toBe('missing');
+        expect(missing.baseId).toBeUndefined();
+
+        const mismatch = await decompressFromUrl(payload, { base }).catch(error => error);
+        expect(mismatch.reason).toBe('mismatch');
+        expect(mismatch.message).toMatch(/^Base document [0-9a-f]{8} does not match/);
+
+        await expect(compressToUrl(variant, { base: 99 })).rejects.toThrow('Base id 99 is not registered');
+        await expect(compressToUrl(variant, { base, dictionary: 1 })).rejects.toThrow('The base option cannot be combined with a preset dictionary');
+    });
+
+    // Test 5: Streams refuse delta payloads
+    it('rejects delta payloads in the decompress stream', async () => {
+        const { payload } = await compressToUrl(variant, { base });
+        const stream = createDecompressStream();
+        const writer = stream.writable.getWriter();
+        writer.write(payload).catch(() => {});
+        writer.close().catch(() => {});
+        await expect(new Response(stream.readable).text()).rejects.toThrow(PayloadTypeError);
+    });
+});
@@ -0,0 +1,176 @@
+import { crc32 } from './checksum';
+import { BaseDocumentError, CorruptPayloadError, DecompressionLimitError } from './errors';
+import { readVarint, writeVarint } from './varint';
+
+// A delta payload names its base by registered id, or by hash alone when the
+// base was passed as a document. The hash is always there, so a base that
+// changed behind its id is caught instead of producing garbage.
+interface BaseReference {
+  // 0 for bases referenced by hash only
+  id: number;
+  // CRC-32 of the base bytes
+  hash: number;
+}
+
+type BaseDocument = string | Uint8Array;
+
+// Matches shorter than this cost more as a copy than as literal bytes
+const MIN_MATCH = 8;
+
+const encoder = new TextEncoder();
+
+const basesById = new Map<number, Uint8Array>();
+const basesByHash = new Map<number, Uint8Array>();
+
+function toBytes(document: BaseDocument): Uint8Array {
+  return typeof document === 'string' ? encoder.encode(document) : document;
+}
+
+function hashName(hash: number): string {
+  return hash.toString(16).padStart(8, '0');
+}
+
+function registerBase(id: number, document: BaseDocument): void {
+  if (!Number.isInteger(id) || id < 1 || id > 0xffffffff) {
+    throw new Error('Base id must be a positive 32-bit integer');
+  }
+  if (basesById.has(id)) {
+    throw new Error(`Base id ${id} is already registered`);
+  }
+  const bytes = toBytes(document);
+  basesById.set(id, bytes);
+  basesByHash.set(crc32(bytes), bytes);
+}
+
+// The bytes and reference of the base given to compressToUrl
+export function resolveBaseOption(base: number | BaseDocument): { bytes: Uint8Array; reference: BaseReference } {
+  if (typeof base === 'number') {
+    const bytes = basesById.get(base);
+    if (!bytes) throw new BaseDocumentError(`Base id ${base} is not registered`, 'missing', base);
+    return { bytes, reference: { id: base, hash: crc32(bytes) } };
+  }
+  const bytes = toBytes(base);
+  return { bytes, reference: { id: 0, hash: crc32(bytes) } };
+}
+
+// Finds the base a payload was encoded against: the document passed by the
+// reader, else the registry. Either way its hash must match.
+export function findBase(reference: BaseReference, given?: BaseDocument): Uint8Array {
+  const { id, hash } = reference;
+  const name = id ? `Base id ${id}` : `Base document ${hashName(hash)}`;
+  const bytes = given !== undefined ? toBytes(given) : id ? basesById.get(id) : basesByHash.get(hash);
+  if (!bytes) throw new BaseDocumentError(`${name} is not registered; register it or pass it as the base option`, 'missing', id || undefined, hash);
+  if (crc32(bytes) !== hash) {
+    throw new BaseDocumentError(`${name} does not match the document the payload was encoded against`, 'mismatch', id || undefined, hash);
+  }
+  return bytes;
+}
+
+function matchKey(bytes: Uint8Array, at: number): number {
+  let key = 0;
+  for (let i = at; i < at + MIN_MATCH; i++) key = Math.imul(key ^ bytes[i], 0x9e3779b1);
+  return key;
+}
+
+function writeZigzag(out: number[], value: number) {
+  writeVarint(out, value < 0 ? -value * 2 - 1 : value * 2);
+}
+
+function readZigzag(bytes: Uint8Array, cursor: { offset: number }): number {
+  const value = readVarint(bytes, cursor, 'Delta');
+  return value % 2 ? -(value + 1) / 2 : value / 2;
+}
+
+// Layout: a list of operations, each a varint of length * 2 + 1 for copies or
+// length * 2 for inserts. A copy is followed by its base offset relative to the
+// end of the previous copy, zigzag-encoded; an insert by its literal bytes. The
+// codec compresses the literals afterwards.
+export function encodeDelta(base: Uint8Array, target: Uint8Array): Uint8Array {
+  const index = new Map<number, number>();
+  for (let i = 0; i + MIN_MATCH <= base.length; i++) {
+    const key = matchKey(base, i);
+    if (!index.has(key)) index.set(key, i);
+  }
+
+  const out: number[] = [];
+  let insertStart = 0;
+  let previousEnd = 0;
+  const matchLength = (from: number, at: number) => {
+    let length = 0;
+    while (at + length < target.length && from + length < base.length && base[from + length] === target[at + length]) length++;
+    return length;
+  };
+
+  let i = 0;
+  while (i + MIN_MATCH <= target.length) {
+    // Continuing right after the previous copy is the cheapest offset to store
+    let from = previousEnd;
+    let length = matchLength(from, i);
+    if (length < MIN_MATCH) {
+      const candidate = index.get(matchKey(target, i));
+      if (candidate !== undefined) {
+        from = candidate;
+        length = matchLength(from, i);
+      }
+    }
+    if (length < MIN_MATCH) {
+      i++;
+      continue;
+    }
+    let back = 0;
+    while (i - back > insertStart && from - back > 0 && base[from - back - 1] === target[i - back - 1]) back++;
+    const start = i - back;
+    if (start > insertStart) {
+      writeVarint(out, (start - insertStart) * 2);
+      for (let j = insertStart; j < start; j++) out.push(target[j]);
+    }
+    writeVarint(out, (length + back) * 2 + 1);
+    writeZigzag(out, from - back - previousEnd);
+    i += length;
+    insertStart = i;
+    previousEnd = from + length;
+  }
+  if (insertStart < target.length) {
+    writeVarint(out, (target.length - insertStart) * 2);
+    for (let j = insertStart; j < target.length; j++) out.push(target[j]);
+  }
+  return new Uint8Array(out);
+}
+
+// Copies cost a few bytes each but can repeat the whole base, so the output is
+// held to maxOutputBytes here too
+export function applyDelta(base: Uint8Array, delta: Uint8Array, maxOutputBytes = Infinity): Uint8Array {
+  const parts: Uint8Array[] = [];
+  let size = 0;
+  let previousEnd = 0;
+  const cursor = { offset: 0 };
+  while (cursor.offset < delta.length) {
+    const op = readVarint(delta, cursor, 'Delta');
+    const length = Math.floor(op / 2);
+    let part: Uint8Array;
+    if (op % 2) {
+      const from = previousEnd + readZigzag(delta, cursor);
+      if (from < 0 || from + length > base.length) throw new CorruptPayloadError('Delta copies outside the base document');
+      part = base.subarray(from, from + length);
+      previousEnd = from + length;
+    } else {
+      if (cursor.offset + length > delta.length) throw new CorruptPayloadError('Delta is truncated');
+      part = delta.subarray(cursor.offset, cursor.offset + length);
+      cursor.offset += length;
+    }
+    size += length;
+    if (size > maxOutputBytes) {
+      throw new DecompressionLimitError(`Decompressed output exceeds maxOutputBytes (${maxOutputBytes} bytes)`, 'maxOutputBytes');
+    }
+    parts.push(part);
+  }
+  const output = new Uint8Array(size);
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+  return output;
+}
+
+export { registerBase, BaseDocument, BaseReference };
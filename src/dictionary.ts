@@ -0,0 +1,81 @@
+import { UnsupportedPayloadError } from './errors';
+
+// Preset dictionaries are referenced by a one-byte id in the payload header, so the
+// content behind an id must never change once payloads using it have been shared.
+// Add a new id instead of editing an existing dictionary.
+
+// Deflate can only look back 32 KB
+const MAX_DICTIONARY_SIZE = 32768;
+
+export const HTML_DICTIONARY_ID = 1;
+
+// Boilerplate shared by most pages made with the editor: document skeleton, social
+// metadata and the JSON-LD block. Deflate favors the closest matches, so the most
+// common strings come last.
+const HTML_DICTIONARY = `
+  <style>
+  .container {
+    display: flex;
+    justify-content: center;
+    align-items: center;
+    height: 100vh;
+  }
+  </style>
+<body><div class="container"><a href="https://"><img src="https://" alt=""></a></div></body>
+</html>
+<meta http-equiv="refresh" content="1;url=https://
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<meta name="description" content="
+<link rel="stylesheet" href="
+<script src="
+<script type="application/ld+json">
+  {
+    "@context": "http://schema.org",
+    "@type": "WebPage",
+    "name": "",
+    "description": "",
+    "image": "https://",
+    "url": "https://"
+  }
+</script>
+<meta property="og:type" content="website">
+<meta name="twitter:card" content="summary_large_image">
+<meta name="twitter:title" content="
+<meta name="twitter:description" content="
+<meta name="twitter:image" content="https://
+<meta property="og:title" content="
+<meta property="og:description" content="
+<meta property="og:image" content="https://
+<meta property="og:url" content="https://
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <title></title>
+</head>
+<body>
+`;
+
+const dictionaries = new Map<number, Uint8Array>([
+  [HTML_DICTIONARY_ID, new TextEncoder().encode(HTML_DICTIONARY)],
+]);
+
+export function registerDictionary(id: number, content: string | Uint8Array): void {
+  if (!Number.isInteger(id) || id < 1 || id > 255) {
+    throw new Error('Dictionary id must be an integer between 1 and 255');
+  }
+  if (dictionaries.has(id)) {
+    throw new Error(`Dictionary id ${id} is already registered`);
+  }
+  const bytes = typeof content === 'string' ? new TextEncoder().encode(content) : content;
+  if (!bytes.length || bytes.length > MAX_DICTIONARY_SIZE) {
+    throw new Error(`Dictionary must be between 1 and ${MAX_DICTIONARY_SIZE} bytes`);
+  }
+  dictionaries.set(id, bytes);
+}
+
+export function getDictionary(id: number): Uint8Array {
+  const dictionary = dictionaries.get(id);
+  if (!dictionary) throw new UnsupportedPayloadError(`Unknown dictionary id: ${id}`);
+  return dictionary;
+}
@@ -0,0 +1,114 @@
+import { ALPHABETS, AlphabetProfile, base85Decode, base85Encode } from './encoding';
+import { InvalidCharacterError } from './errors';
+import { compressToUrl, decompressFromUrl } from './index';
+import { buildShareUrl } from './shareUrl';
+import { joinChunks, splitPayload } from './shard';
+
+describe('alphabet profiles', () => {
+    const profiles = Object.keys(ALPHABETS) as AlphabetProfile[];
+    // Bytes and characters per block of each profile
+    const layouts: Record<AlphabetProfile, [number, number]> = {
+        default: [4, 5],
+        'url-query-safe': [3, 4],
+        'fragment-safe': [4, 5],
+        'chat-safe': [5, 7],
+        'qr-alphanumeric': [2, 3],
+    };
+    const input = '<!DOCTYPE html><html><head><title>Profiles ✓</title></head><body><p>"Quotes" & <b>tags</b></p></body></html>';
+
+    // Test 1: Block encoding round-trips every length
+    it.each(profiles)('round-trips bytes with the %s alphabet', (profile) => {
+        for (let length = 0; length < 30; length++) {
+            const bytes = new Uint8Array(length).map((_, i) => (i * 97 + length * 31) % 256);
+            bytes.fill(255, 0, length >> 1);
+            expect(base85Decode(base85Encode(bytes, profile), profile)).toEqual(bytes);
+        }
+    });
+
+    // Test 2: Same output as the plain definition of the block encoding
+    it.each(profiles)('matches the reference encoding with the %s alphabet', (profile) => {
+        const chars = ALPHABETS[profile];
+        const base = BigInt(chars.length);
+        const [blockBytes, blockChars] = layouts[profile];
+        // Whole blocks only: 3000 bytes split evenly into blocks of every size
+        const reference = (bytes: Uint8Array) => {
+            let result = '';
+            for (let i = 0; i < bytes.length; i += blockBytes) {
+                let value = 0n;
+                for (let j = 0; j < blockBytes; j++) value = value * 256n + BigInt(bytes[i + j]);
+                let block = '';
+                for (let j = 0; j < blockChars; j++) {
+                    block = chars[Number(value % base)] + block;
+                    value /= base;
+                }
+                result += block;
+            }
+            return result;
+        };
+        let seed = 7;
+        const bytes = new Uint8Array(3000).map(() => (seed = (seed * 1103515245 + 12345) >>> 0) >>> 24);
+        bytes.fill(255, 1000, 1100);
+        expect(base85Encode(bytes, profile)).toBe(reference(bytes));
+        expect(base85Decode(reference(bytes), profile)).toEqual(bytes);
+    });
+
+    // Test 3: Characters outside the alphabet, including non-ASCII ones
+    it('reports the position of invalid characters', () => {
+        const text = base85Encode(new Uint8Array(12));
+        for (const char of ['é', '\u0000', ' ']) {
+            const error = (() => {
+                try {
+                    base85Decode(text.slice(0, 7) + char + text.slice(8), 'default', 1);
+                } catch (caught) {
+                    return caught as InvalidCharacterError;
+                }
+            })();
+            expect(error).toBeInstanceOf(InvalidCharacterError);
+            expect(error!.position).toBe(8);
+            expect(error!.char).toBe(char);
+        }
+    });
+
+    // Test 4: Payloads only use the profile characters and record the profile
+    it.each(profiles)('compresses with the %s alphabet', async (profile) => {
+        const { payload } = await compressToUrl(input, { alphabet: profile });
+        for (const char of payload) {
+            expect(ALPHABETS[profile]).toContain(char);
+        }
+        const decompressed = await decompressFromUrl(payload);
+        expect(decompressed.data).toBe(input);
+    });
+
+    // Test 5: URL-safe profiles are never escaped
+    it('keeps url-query-safe and fragment-safe payloads unescaped', async () => {
+        const query = (await compressToUrl(input, { alphabet: 'url-query-safe' })).payload;
+        const naive = new URL('https://example.com/');
+        naive.searchParams.set('u', query);
+        expect(naive.href).toBe(`https://example.com/?u=${query}`);
+
+        const fragment = (await compressToUrl(input, { alphabet: 'fragment-safe' })).payload;
+        expect(buildShareUrl('https://example.com/', fragment, { placement: 'fragment' })).toBe(`https://example.com/#u=${fragment}`);
+    });
+
+    // Test 6: Chat-safe payloads are alphanumeric
+    it('writes chat-safe payloads with letters and digits only', async () => {
+        const { payload } = await compressToUrl(input, { alphabet: 'chat-safe' });
+        expect(payload).toMatch(/^[0-9A-Za-z]+$/);
+    });
+
+    // Test 7: Chunks keep the profile
+    it('shards profiled payloads within their alphabet', async () => {
+        const { payload } = await compressToUrl(input.repeat(3) + Math.PI, { alphabet: 'qr-alphanumeric' });
+        const chunks = splitPayload(payload, 60);
+        expect(chunks.length).toBeGreaterThan(1);
+        for (const chunk of chunks) {
+            expect(chunk).toMatch(/^[0-9A-Z$*\-./:]+$/);
+        }
+        expect(joinChunks(chunks)).toBe(payload);
+    });
+
+    // Test 8: Unknown profile
+    it('throws on unknown alphabet profile', async () => {
+        await expect(compressToUrl(input, { alphabet: 'emoji' as any })).rejects.toThrow('Unknown alphabet profile: emoji');
+    });
+});
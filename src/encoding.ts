@@ -0,0 +1,295 @@
+import { CorruptPayloadError, InvalidCharacterError } from './errors';
+
+export const alphabet = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz!()*+-;<=>?@^_`{|}~',:/\"[]";
+
+type AlphabetProfile = 'default' | 'url-query-safe' | 'fragment-safe' | 'chat-safe' | 'qr-alphanumeric';
+
+// Alternative alphabets for places where some characters of the default one get
+// escaped or mangled:
+// - url-query-safe: nothing is percent-encoded, even by URLSearchParams
+// - fragment-safe: same for the #fragment, which tolerates a few more characters
+// - chat-safe: letters and digits only, so messengers cannot cut a link short
+// - qr-alphanumeric: uppercase subset of the QR code alphanumeric mode
+export const ALPHABETS: Record<AlphabetProfile, string> = {
+  default: alphabet,
+  'url-query-safe': '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz-._*',
+  'fragment-safe': "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz-._~!$()*,;:@/?=+'[]{}|^",
+  'chat-safe': '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz',
+  'qr-alphanumeric': '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ$*-./:',
+};
+
+interface BlockLayout {
+  chars: string;
+  base: number;
+  blockBytes: number;
+  blockChars: number;
+  // Characters written for a trailing block of n bytes, indexed by n
+  partialChars: number[];
+  // Char code of each digit, and digit of each char code (-1 outside the alphabet)
+  codes: Uint8Array;
+  digits: Int8Array;
+  // Block values from here on do not fit in blockBytes bytes
+  limit: number;
+}
+
+const layouts = new Map<AlphabetProfile, BlockLayout>();
+
+// Maps char codes to digits for an ASCII alphabet
+function digitTable(chars: string): Int8Array {
+  const digits = new Int8Array(128).fill(-1);
+  for (let i = 0; i < chars.length; i++) digits[chars.charCodeAt(i)] = i;
+  return digits;
+}
+
+// Picks the block size (up to 6 bytes, so that values stay exact in a double) with
+// the fewest characters per byte. With 85 characters or more that is the Ascii85
+// layout of 4 bytes per 5 characters.
+function getLayout(profile: AlphabetProfile): BlockLayout {
+  let layout = layouts.get(profile);
+  if (layout) return layout;
+  const chars = ALPHABETS[profile];
+  if (!chars) throw new Error(`Unknown alphabet profile: ${profile}`);
+  const base = chars.length;
+
+  let blockBytes = 1;
+  let blockChars = Infinity;
+  for (let n = 1; n <= 6; n++) {
+    const m = Math.ceil(n * 8 / Math.log2(base) - 1e-9);
+    const fits = base ** m >= 256 ** n ? m : m + 1;
+    if (fits / n < blockChars / blockBytes) {
+      blockBytes = n;
+      blockChars = fits;
+    }
+  }
+
+  // A trailing block of n bytes needs enough characters for the padding digits
+  // to stay below one unit of its last byte.
+  const partialChars = [0];
+  for (let n = 1; n <= blockBytes; n++) {
+    let count = 1;
+    while (base ** (blockChars - count) > 256 ** (blockBytes - n)) count++;
+    partialChars.push(count);
+  }
+
+  const codes = new Uint8Array(base);
+  for (let i = 0; i < base; i++) codes[i] = chars.charCodeAt(i);
+  layout = { chars, base, blockBytes, blockChars, partialChars, codes, digits: digitTable(chars), limit: 256 ** blockBytes };
+  layouts.set(profile, layout);
+  return layout;
+}
+
+// Blocks of up to 4 bytes are held in one 32-bit word. Wider blocks are split into
+// a low word of 24 bits and a high word, so that every step of the long division
+// stays within int32 arithmetic: the remainder of the high word times 2^24, plus
+// the low word, is below 2^31 for any base under 128.
+function encodeBlocks(bytes: Uint8Array, end: number, layout: BlockLayout, out: Uint8Array, position: number): void {
+  const { base, blockBytes, blockChars, codes } = layout;
+  if (blockBytes <= 4) {
+    for (let i = 0; i < end; i += blockBytes) {
+      let word = 0;
+      for (let j = 0; j < blockBytes; j++) word = (word << 8) | bytes[i + j];
+      // Only the first quotient needs the unsigned range
+      let value = word >>> 0;
+      let quotient = (value / base) >>> 0;
+      out[position + blockChars - 1] = codes[value - quotient * base];
+      value = quotient;
+      for (let j = blockChars - 2; j >= 0; j--) {
+        quotient = (value / base) | 0;
+        out[position + j] = codes[value - quotient * base];
+        value = quotient;
+      }
+      position += blockChars;
+    }
+    return;
+  }
+  for (let i = 0; i < end; i += blockBytes) {
+    let high = 0;
+    let low = 0;
+    for (let j = 0; j < blockBytes; j++) {
+      high = (high << 8) | (low >>> 16);
+      low = ((low << 8) & 0xffffff) | bytes[i + j];
+    }
+    for (let j = blockChars - 1; j >= 0; j--) {
+      const highQuotient = (high / base) | 0;
+      const rest = (high - highQuotient * base) * 0x1000000 + low;
+      const lowQuotient = (rest / base) | 0;
+      out[position + j] = codes[rest - lowQuotient * base];
+      high = highQuotient;
+      low = lowQuotient;
+    }
+    position += blockChars;
+  }
+}
+
+// The inverse of encodeBlocks, over whole blocks of str from start to end
+function decodeBlocks(str: string, start: number, end: number, layout: BlockLayout, bytes: Uint8Array, position: number, offset: number): void {
+  const { base, blockBytes, blockChars, digits, limit } = layout;
+  const digitAt = (index: number) => {
+    const code = str.charCodeAt(index);
+    const digit = code < 128 ? digits[code] : -1;
+    if (digit === -1) throw new InvalidCharacterError(offset + index, str[index]);
+    return digit;
+  };
+  if (blockBytes <= 4) {
+    for (let i = start; i < end; i += blockChars) {
+      let value = 0;
+      for (let j = 0; j < blockChars; j++) value = value * base + digitAt(i + j);
+      if (value >= limit) throw new CorruptPayloadError('Invalid Base85 block');
+      for (let j = blockBytes - 1; j >= 0; j--) {
+        bytes[position + j] = value & 0xff;
+        value >>>= 8;
+      }
+      position += blockBytes;
+    }
+    return;
+  }
+  for (let i = start; i < end; i += blockChars) {
+    let high = 0;
+    let low = 0;
+    for (let j = 0; j < blockChars; j++) {
+      low = low * base + digitAt(i + j);
+      high = high * base + ((low / 0x1000000) | 0);
+      low &= 0xffffff;
+    }
+    if (high * 0x1000000 + low >= limit) throw new CorruptPayloadError('Invalid Base85 block');
+    for (let j = blockBytes - 1; j >= 0; j--) {
+      const shift = (blockBytes - 1 - j) * 8;
+      bytes[position + j] = shift < 24 ? low >>> shift : high >>> (shift - 24);
+    }
+    position += blockBytes;
+  }
+}
+
+// Alphabets are ASCII, so the encoded characters are built as bytes and decoded
+// into a string in one go
+const asciiDecoder = new TextDecoder();
+
+// Block encoding in the style of Ascii85: every block of bytes becomes a fixed
+// number of characters of the full alphabet, and a shorter trailing block is
+// written with as few characters as can still be decoded.
+export function base85Encode(bytes: Uint8Array, profile: AlphabetProfile = 'default'): string {
+  const layout = getLayout(profile);
+  const { blockBytes, blockChars, partialChars } = layout;
+  const trailing = bytes.length % blockBytes;
+  const whole = bytes.length - trailing;
+  const out = new Uint8Array((whole / blockBytes) * blockChars + partialChars[trailing]);
+  encodeBlocks(bytes, whole, layout, out, 0);
+
+  if (trailing) {
+    // The trailing block is padded with zero bytes and cut after its significant digits
+    const block = new Uint8Array(blockBytes);
+    block.set(bytes.subarray(whole));
+    const chars = new Uint8Array(blockChars);
+    encodeBlocks(block, blockBytes, layout, chars, 0);
+    out.set(chars.subarray(0, partialChars[trailing]), out.length - partialChars[trailing]);
+  }
+
+  return asciiDecoder.decode(out);
+}
+
+// `offset` is where str starts within the payload, for error positions
+export function base85Decode(str: string, profile: AlphabetProfile = 'default', offset: number = 0): Uint8Array {
+  const layout = getLayout(profile);
+  const { chars, blockBytes, blockChars, partialChars } = layout;
+  const trailing = str.length % blockChars;
+  const trailingBytes = trailing ? partialChars.indexOf(trailing) : 0;
+  if (trailingBytes === -1) throw new CorruptPayloadError('Invalid Base85 length');
+  const whole = str.length - trailing;
+  const bytes = new Uint8Array((whole / blockChars) * blockBytes + trailingBytes);
+  decodeBlocks(str, 0, whole, layout, bytes, 0, offset);
+
+  if (trailing) {
+    // Missing characters of a trailing block are padded with the highest digit
+    const block = new Uint8Array(blockBytes);
+    const padded = str.slice(whole) + chars[chars.length - 1].repeat(blockChars - trailing);
+    decodeBlocks(padded, 0, blockChars, layout, block, 0, offset + whole);
+    bytes.set(block.subarray(0, trailingBytes), bytes.length - trailingBytes);
+  }
+
+  return bytes;
+}
+
+// Incremental versions of the block encoding for streams: whole blocks are
+// converted as soon as they are complete and the trailing block at the end.
+interface BlockCoder<In, Out> {
+  push(input: In): Out;
+  end(): Out;
+}
+
+export function createBase85Encoder(profile: AlphabetProfile = 'default'): BlockCoder<Uint8Array, string> {
+  const { blockBytes } = getLayout(profile);
+  let pending: Uint8Array = new Uint8Array(0);
+  return {
+    push(chunk) {
+      let bytes = chunk;
+      if (pending.length) {
+        bytes = new Uint8Array(pending.length + chunk.length);
+        bytes.set(pending);
+        bytes.set(chunk, pending.length);
+      }
+      const whole = bytes.length - (bytes.length % blockBytes);
+      pending = bytes.slice(whole);
+      return base85Encode(bytes.subarray(0, whole), profile);
+    },
+    end() {
+      return base85Encode(pending, profile);
+    },
+  };
+}
+
+export function createBase85Decoder(profile: AlphabetProfile = 'default', offset: number = 0): BlockCoder<string, Uint8Array> {
+  const { blockChars } = getLayout(profile);
+  let pending = '';
+  let position = offset;
+  return {
+    push(chunk) {
+      const text = pending + chunk;
+      const whole = text.length - (text.length % blockChars);
+      pending = text.slice(whole);
+      const bytes = base85Decode(text.slice(0, whole), profile, position);
+      position += whole;
+      return bytes;
+    },
+    end() {
+      return base85Decode(pending, profile, position);
+    },
+  };
+}
+
+// Payloads produced before the block encoding only used 5 bits per character.
+// They always start with "3U", the base32 spelling of the gzip magic bytes.
+export const LEGACY_PREFIX = '3U';
+
+const legacyDigits = digitTable(alphabet.slice(0, 32));
+
+export function legacyBase32Decode(str: string): Uint8Array {
+  const trimmedStr = str.replace(/~+$/, '');
+  const paddingChars = str.length - trimmedStr.length;
+  const totalBytesEstimate = Math.floor((trimmedStr.length * 5 - paddingChars * 8) / 8) || 1;
+  const bytes = new Uint8Array(Math.ceil(trimmedStr.length * 5 / 8));
+
+  // Only the bits not yet written out stay in the buffer, so it never grows past 13 bits
+  let buffer = 0;
+  let bufferBits = 0;
+  let position = 0;
+  for (let i = 0; i < trimmedStr.length; i++) {
+    const code = trimmedStr.charCodeAt(i);
+    const value = code < 128 ? legacyDigits[code] : -1;
+    if (value === -1) throw new InvalidCharacterError(i, trimmedStr[i]);
+    buffer = (buffer << 5) | value;
+    bufferBits += 5;
+    if (bufferBits >= 8) {
+      bufferBits -= 8;
+      bytes[position++] = buffer >> bufferBits;
+      buffer &= (1 << bufferBits) - 1;
+    }
+  }
+
+  if (bufferBits > 0) {
+    bytes[position++] = buffer << (8 - bufferBits);
+  }
+
+  return bytes.slice(0, Math.min(position, totalBytesEstimate + paddingChars));
+}
+
+export { AlphabetProfile, BlockCoder };
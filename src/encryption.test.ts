@@ -0,0 +1,94 @@
+import { buildShareUrl, compressBundle, compressToUrl, decompressBundle, decompressFromUrl, DecryptionError, parseShareUrl } from './index';
+
+describe('encrypted payloads', () => {
+    const input = '<p>Internal prototype</p>';
+
+    // Test 1: Passphrase round trip
+    it('encrypts with a passphrase', async () => {
+        const result = await compressToUrl(input, { encrypt: 'correct horse battery staple' });
+        expect(result.encryptionKey).toBeUndefined();
+        const { data } = await decompressFromUrl(result.payload, { decrypt: 'correct horse battery staple' });
+        expect(data).toBe(input);
+    });
+
+    // Test 2: Wrong passphrase
+    it('rejects a wrong passphrase', async () => {
+        const { payload } = await compressToUrl(input, { encrypt: 'right' });
+        const promise = decompressFromUrl(payload, { decrypt: 'wrong' });
+        await expect(promise).rejects.toThrow(DecryptionError);
+    });
+
+    // Test 3: Random key
+    it('generates a random key and returns it', async () => {
+        const result = await compressToUrl(input, { encrypt: true });
+        expect(result.encryptionKey).toMatch(/^[A-Za-z0-9_-]{22}$/);
+        expect((await decompressFromUrl(result.payload, { decrypt: result.encryptionKey })).data).toBe(input);
+        const other = await compressToUrl(input, { encrypt: true });
+        await expect(decompressFromUrl(result.payload, { decrypt: other.encryptionKey })).rejects.toThrow(DecryptionError);
+    });
+
+    // Test 4: Raw key bytes
+    it('accepts raw key bytes', async () => {
+        const key = crypto.getRandomValues(new Uint8Array(32));
+        const { payload } = await compressToUrl(input, { encrypt: key });
+        expect((await decompressFromUrl(payload, { decrypt: key })).data).toBe(input);
+        await expect(compressToUrl(input, { encrypt: new Uint8Array(10) })).rejects.toThrow('Encryption key must be 16, 24 or 32 bytes');
+    });
+
+    // Test 5: Content is not readable without the key
+    it('requires a key to decompress', async () => {
+        const { payload } = await compressToUrl(input, { encrypt: true });
+        await expect(decompressFromUrl(payload)).rejects.toThrow('Payload is encrypted; pass the key or passphrase as decrypt');
+    });
+
+    // Test 6: Same input gives different payloads
+    it('uses a fresh IV every time', async () => {
+        const key = new Uint8Array(16);
+        const first = await compressToUrl(input, { encrypt: key });
+        const second = await compressToUrl(input, { encrypt: key });
+        expect(first.payload).not.toBe(second.payload);
+    });
+
+    // Test 7: Key goes in the fragment of share URLs
+    it('puts the key in the share URL fragment', async () => {
+        const result = await compressToUrl(input, { encrypt: true, shareUrl: { base: 'https://onthefly.dobuki.net/' } });
+        expect(new URL(result.url!).hash).toBe(`#k=${result.encryptionKey}`);
+        // The payload is compared after parsing, since the query escapes some of its characters
+        const parsed = parseShareUrl(result.url!)!;
+        expect(parsed.placement).toBe('query');
+        expect(parsed.payload).toBe(result.payload);
+        expect(parsed.key).toBe(result.encryptionKey);
+        expect((await decompressFromUrl(parsed.payload, { decrypt: parsed.key })).data).toBe(input);
+    });
+
+    // Test 8: Key next to a fragment payload
+    it('combines the key with a fragment payload', () => {
+        const url = buildShareUrl('https://example.com/', '1abc', { placement: 'fragment', key: 'KEY_-1' });
+        expect(url).toBe('https://example.com/#u=1abc&k=KEY_-1');
+        expect(parseShareUrl(url)).toEqual({ payload: '1abc', placement: 'fragment', key: 'KEY_-1' });
+    });
+
+    // Test 9: Encrypted and signed
+    it('signs the ciphertext of encrypted payloads', async () => {
+        const { payload, encryptionKey } = await compressToUrl(input, { encrypt: true, sign: 'secret' });
+        const { data } = await decompressFromUrl(payload, { decrypt: encryptionKey, verify: 'secret' });
+        expect(data).toBe(input);
+    });
+
+    // Test 10: Bundles
+    it('encrypts bundles', async () => {
+        const { payload, encryptionKey } = await compressBundle({ 'index.html': input }, { encrypt: true });
+        const bundle = await decompressBundle(payload, { decrypt: encryptionKey });
+        expect(bundle.get('index.html')?.data).toBe(input);
+    });
+
+    // Test 11: Malformed keys
+    it('rejects malformed keys with DecryptionError', async () => {
+        const { payload } = await compressToUrl(input, { encrypt: true });
+        for (const key of ['abcde', 'a', 'not a key']) {
+            const promise = decompressFromUrl(payload, { decrypt: key });
+            await expect(promise).rejects.toThrow(DecryptionError);
+        }
+        await expect(decompressFromUrl(payload, { decrypt: 'abcde' })).rejects.toThrow('Invalid encryption key');
+    });
+});
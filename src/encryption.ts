@@ -0,0 +1,109 @@
+/// <reference lib="dom" />
+
+import { CorruptPayloadError, DecryptionError, UnsupportedPayloadError } from './errors';
+import { getSubtle, getWebCrypto } from './signature';
+
+// A passphrase, or raw AES key bytes (16, 24 or 32)
+type EncryptionKey = string | Uint8Array;
+
+// First byte of an encrypted body, telling how the AES key is obtained. New
+// derivation settings get a new mode so links already shared keep working.
+const MODE_RAW_KEY = 0;
+const MODE_PASSPHRASE = 1;
+
+// OWASP recommendation for PBKDF2-HMAC-SHA256
+const PBKDF2_ITERATIONS = 600000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+// 128 bits is plenty for a random key and keeps the fragment to 22 characters
+const RANDOM_KEY_BYTES = 16;
+
+export async function generateKey(): Promise<Uint8Array> {
+  return (await getWebCrypto()).getRandomValues(new Uint8Array(RANDOM_KEY_BYTES));
+}
+
+// Keys travel in URLs as unpadded base64url
+export function encodeKey(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function decodeKey(text: string): Uint8Array {
+  if (!/^[A-Za-z0-9_-]+$/.test(text)) throw new DecryptionError('Invalid encryption key');
+  let binary: string;
+  try {
+    binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  } catch (error) {
+    // A length that no base64 string has, like 5 characters
+    throw new DecryptionError('Invalid encryption key', { cause: error });
+  }
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+async function importRawKey(bytes: Uint8Array, usage: KeyUsage): Promise<CryptoKey> {
+  if (![16, 24, 32].includes(bytes.length)) {
+    throw new Error('Encryption key must be 16, 24 or 32 bytes');
+  }
+  return (await getSubtle()).importKey('raw', bytes, 'AES-GCM', false, [usage]);
+}
+
+async function derivePassphraseKey(passphrase: string, salt: Uint8Array, usage: KeyUsage): Promise<CryptoKey> {
+  if (!passphrase) throw new Error('Passphrase must not be empty');
+  const subtle = await getSubtle();
+  const material = await subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    [usage],
+  );
+}
+
+// Layout: mode byte, salt (passphrase mode only), IV, then ciphertext and tag
+export async function encryptBytes(bytes: Uint8Array, key: EncryptionKey): Promise<Uint8Array> {
+  const crypto = await getWebCrypto();
+  const passphrase = typeof key === 'string';
+  const salt = passphrase ? crypto.getRandomValues(new Uint8Array(SALT_BYTES)) : new Uint8Array(0);
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const cryptoKey = passphrase ? await derivePassphraseKey(key, salt, 'encrypt') : await importRawKey(key, 'encrypt');
+  const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, cryptoKey, bytes));
+
+  const result = new Uint8Array(1 + salt.length + IV_BYTES + ciphertext.length);
+  result[0] = passphrase ? MODE_PASSPHRASE : MODE_RAW_KEY;
+  result.set(salt, 1);
+  result.set(iv, 1 + salt.length);
+  result.set(ciphertext, 1 + salt.length + IV_BYTES);
+  return result;
+}
+
+// A string key is read as a passphrase or as an encoded key, whichever the payload
+// was encrypted with.
+export async function decryptBytes(bytes: Uint8Array, key: EncryptionKey): Promise<Uint8Array> {
+  const mode = bytes[0];
+  if (mode !== MODE_RAW_KEY && mode !== MODE_PASSPHRASE) {
+    throw new UnsupportedPayloadError(`Unsupported encryption mode: ${mode}`);
+  }
+  const saltLength = mode === MODE_PASSPHRASE ? SALT_BYTES : 0;
+  if (bytes.length < 1 + saltLength + IV_BYTES) throw new CorruptPayloadError('Encrypted payload is truncated');
+  const salt = bytes.subarray(1, 1 + saltLength);
+  const iv = bytes.subarray(1 + saltLength, 1 + saltLength + IV_BYTES);
+
+  let cryptoKey: CryptoKey;
+  if (mode === MODE_PASSPHRASE) {
+    if (typeof key !== 'string') throw new DecryptionError('Payload is encrypted with a passphrase, not a key');
+    cryptoKey = await derivePassphraseKey(key, salt, 'decrypt');
+  } else {
+    const raw = typeof key === 'string' ? decodeKey(key) : key;
+    if (![16, 24, 32].includes(raw.length)) throw new DecryptionError('Invalid encryption key');
+    cryptoKey = await importRawKey(raw, 'decrypt');
+  }
+
+  try {
+    const plaintext = await (await getSubtle()).decrypt({ name: 'AES-GCM', iv }, cryptoKey, bytes.subarray(1 + saltLength + IV_BYTES));
+    return new Uint8Array(plaintext);
+  } catch {
+    throw new DecryptionError('Payload could not be decrypted; wrong key or passphrase');
+  }
+}
+
+export { EncryptionKey };
@@ -0,0 +1,85 @@
+import { packContent } from './core';
+import {
+    compressBundle, compressToUrl, CompressToUrlError, CorruptPayloadError, decompressFromUrl, IncompletePayloadError,
+    InvalidCharacterError, MissingMimeTypeError, PayloadTooLargeError, PayloadTypeError, UnsupportedPayloadError,
+} from './index';
+
+async function caught(promise: Promise<unknown>): Promise<any> {
+    return promise.then(() => { throw new Error('Expected a rejection'); }, error => error);
+}
+
+describe('error classes', () => {
+    const html = '<p>Errors with codes</p>';
+
+    // Test 1: Size errors carry size and limit
+    it('throws PayloadTooLargeError with size and limit', async () => {
+        const error = await caught(compressToUrl(html, { maxSize: 5 }));
+        expect(error).toBeInstanceOf(PayloadTooLargeError);
+        expect(error).toBeInstanceOf(CompressToUrlError);
+        expect(error.code).toBe('PAYLOAD_TOO_LARGE');
+        expect(error.limit).toBe(5);
+        expect(error.size).toBe((await compressToUrl(html)).size);
+    });
+
+    // Test 2: Invalid characters carry their position
+    it.each([
+        ['1abcd&ef', 5],
+        ['abc&def', 3],
+        ['3U5G&G00', 4],
+    ])('reports the invalid character of %s at position %i', async (payload, position) => {
+        const error = await caught(decompressFromUrl(payload));
+        expect(error).toBeInstanceOf(InvalidCharacterError);
+        expect(error.code).toBe('INVALID_CHARACTER');
+        expect(error.position).toBe(position);
+        expect(error.char).toBe('&');
+    });
+
+    // Test 3: Codec errors are wrapped
+    it('wraps codec failures in CorruptPayloadError', async () => {
+        const { payload } = await compressToUrl(html, { codec: 'gzip' });
+        const damaged = payload.slice(0, 8) + '0000000000' + payload.slice(18);
+        const error = await caught(decompressFromUrl(damaged));
+        expect(error).toBeInstanceOf(CorruptPayloadError);
+        expect(error.code).toBe('CORRUPT_PAYLOAD');
+        expect(error.cause).toBeDefined();
+    });
+
+    // Test 4: Missing MIME type
+    it('throws MissingMimeTypeError', async () => {
+        const { payload } = await packContent(new TextEncoder().encode('no separator'));
+        const error = await caught(decompressFromUrl(payload));
+        expect(error).toBeInstanceOf(MissingMimeTypeError);
+        expect(error.code).toBe('MISSING_MIME_TYPE');
+    });
+
+    // Test 5: Unknown versions
+    it('throws UnsupportedPayloadError for unknown versions', async () => {
+        const error = await caught(decompressFromUrl('Zabc'));
+        expect(error).toBeInstanceOf(UnsupportedPayloadError);
+        expect(error.code).toBe('UNSUPPORTED_PAYLOAD');
+    });
+
+    // Test 6: Missing chunks are listed
+    it('throws IncompletePayloadError with the missing chunks', async () => {
+        const { chunks } = await compressToUrl(html, { maxSize: 30, shard: true });
+        expect(chunks!.length).toBeGreaterThan(1);
+        const error = await caught(decompressFromUrl(chunks!.slice(1)));
+        expect(error).toBeInstanceOf(IncompletePayloadError);
+        expect(error.code).toBe('INCOMPLETE_PAYLOAD');
+        expect(error.missing).toEqual([1]);
+    });
+
+    // Test 7: Bundles passed to decompressFromUrl
+    it('throws PayloadTypeError for bundles', async () => {
+        const { payload } = await compressBundle({ 'index.html': html });
+        const error = await caught(decompressFromUrl(payload));
+        expect(error).toBeInstanceOf(PayloadTypeError);
+        expect(error.code).toBe('WRONG_PAYLOAD_TYPE');
+    });
+
+    // Test 8: Option mistakes stay plain errors
+    it('keeps plain errors for invalid options', async () => {
+        const error = await caught(compressToUrl(html, { codec: 'zip' as any }));
+        expect(error).not.toBeInstanceOf(CompressToUrlError);
+    });
+});
@@ -0,0 +1,193 @@
+import type { FitStep } from './fit';
+
+// Every error about a payload or the runtime is a CompressToUrlError with a stable
+// `code`, so callers can react without matching messages, which may change.
+// Invalid options passed by the caller stay plain Errors.
+
+type ErrorCode =
+  | 'PAYLOAD_TOO_LARGE'
+  | 'INVALID_CHARACTER'
+  | 'CORRUPT_PAYLOAD'
+  | 'INCOMPLETE_PAYLOAD'
+  | 'UNSUPPORTED_PAYLOAD'
+  | 'WRONG_PAYLOAD_TYPE'
+  | 'MISSING_MIME_TYPE'
+  | 'UNSUPPORTED_RUNTIME'
+  | 'INVALID_SIGNATURE'
+  | 'DECRYPTION_FAILED'
+  | 'LIMIT_EXCEEDED'
+  | 'PAYLOAD_EXPIRED'
+  | 'INVALID_BASE';
+
+class CompressToUrlError extends Error {
+  readonly code: ErrorCode;
+
+  constructor(message: string, code: ErrorCode, options?: ErrorOptions) {
+    super(message, options);
+    this.name = 'CompressToUrlError';
+    this.code = code;
+  }
+}
+
+// The payload or share URL is longer than maxSize allows. With `fit`, the sizes
+// reached by each strategy are in `fitReport`.
+class PayloadTooLargeError extends CompressToUrlError {
+  readonly size: number;
+  readonly limit: number;
+  readonly fitReport?: FitStep[];
+
+  constructor(message: string, size: number, limit: number, fitReport?: FitStep[]) {
+    super(message, 'PAYLOAD_TOO_LARGE');
+    this.name = 'PayloadTooLargeError';
+    this.size = size;
+    this.limit = limit;
+    if (fitReport) this.fitReport = fitReport;
+  }
+}
+
+// A character outside the payload's alphabet, at `position` in the payload text
+class InvalidCharacterError extends CompressToUrlError {
+  readonly position: number;
+  readonly char: string;
+
+  constructor(position: number, char: string) {
+    super(`Invalid Base85 char ${JSON.stringify(char)} at position ${position}`, 'INVALID_CHARACTER');
+    this.name = 'InvalidCharacterError';
+    this.position = position;
+    this.char = char;
+  }
+}
+
+// The payload was cut short or altered: bad length, checksum or compressed data
+class CorruptPayloadError extends CompressToUrlError {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, 'CORRUPT_PAYLOAD', options);
+    this.name = 'CorruptPayloadError';
+  }
+}
+
+// Only some chunks of a sharded payload were given. `missing` lists the 1-based
+// chunk numbers, when known.
+class IncompletePayloadError extends CompressToUrlError {
+  readonly missing: number[];
+
+  constructor(message: string, missing: number[] = []) {
+    super(message, 'INCOMPLETE_PAYLOAD');
+    this.name = 'IncompletePayloadError';
+    this.missing = missing;
+  }
+}
+
+// The payload uses a version, codec, dictionary or mode this build does not know
+class UnsupportedPayloadError extends CompressToUrlError {
+  constructor(message: string) {
+    super(message, 'UNSUPPORTED_PAYLOAD');
+    this.name = 'UnsupportedPayloadError';
+  }
+}
+
+// A bundle went to decompressFromUrl, or a document to decompressBundle
+class PayloadTypeError extends CompressToUrlError {
+  constructor(message: string) {
+    super(message, 'WRONG_PAYLOAD_TYPE');
+    this.name = 'PayloadTypeError';
+  }
+}
+
+class MissingMimeTypeError extends CompressToUrlError {
+  constructor() {
+    super('MIME type not found in payload', 'MISSING_MIME_TYPE');
+    this.name = 'MissingMimeTypeError';
+  }
+}
+
+// The runtime lacks zlib, CompressionStream, brotli or Web Crypto
+class UnsupportedRuntimeError extends CompressToUrlError {
+  constructor(message: string) {
+    super(message, 'UNSUPPORTED_RUNTIME');
+    this.name = 'UnsupportedRuntimeError';
+  }
+}
+
+// Thrown by decompressFromUrl when a payload must be verified and is either
+// unsigned or signed with a different key or tampered with.
+class SignatureError extends CompressToUrlError {
+  constructor(message: string) {
+    super(message, 'INVALID_SIGNATURE');
+    this.name = 'SignatureError';
+  }
+}
+
+// Thrown by decompressFromUrl when an encrypted payload comes without a key, or
+// when the key or passphrase does not match.
+class DecryptionError extends CompressToUrlError {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, 'DECRYPTION_FAILED', options);
+    this.name = 'DecryptionError';
+  }
+}
+
+type DecompressionLimit = 'maxOutputBytes' | 'timeoutMs' | 'signal';
+
+// Thrown when decompression is stopped early by one of the DecompressOptions
+// limits. `limit` names the option that was hit.
+class DecompressionLimitError extends CompressToUrlError {
+  readonly limit: DecompressionLimit;
+
+  constructor(message: string, limit: DecompressionLimit, options?: ErrorOptions) {
+    super(message, 'LIMIT_EXCEEDED', options);
+    this.name = 'DecompressionLimitError';
+    this.limit = limit;
+  }
+}
+
+// Thrown when a payload's metadata expiry has passed, unless the caller sets
+// `allowExpired`
+class PayloadExpiredError extends CompressToUrlError {
+  readonly expires: Date;
+
+  constructor(expires: Date) {
+    super(`Payload expired at ${expires.toISOString()}`, 'PAYLOAD_EXPIRED');
+    this.name = 'PayloadExpiredError';
+    this.expires = expires;
+  }
+}
+
+type BaseProblem = 'missing' | 'mismatch';
+
+// A delta payload's base document is not registered or not given (`missing`), or
+// differs from the one it was encoded against (`mismatch`). `baseId` is unset
+// for bases referenced by hash only.
+class BaseDocumentError extends CompressToUrlError {
+  readonly reason: BaseProblem;
+  readonly baseId?: number;
+  readonly hash?: number;
+
+  constructor(message: string, reason: BaseProblem, baseId?: number, hash?: number) {
+    super(message, 'INVALID_BASE');
+    this.name = 'BaseDocumentError';
+    this.reason = reason;
+    if (baseId !== undefined) this.baseId = baseId;
+    if (hash !== undefined) this.hash = hash;
+  }
+}
+
+export {
+  BaseDocumentError,
+  CompressToUrlError,
+  CorruptPayloadError,
+  DecompressionLimitError,
+  DecryptionError,
+  IncompletePayloadError,
+  InvalidCharacterError,
+  MissingMimeTypeError,
+  PayloadExpiredError,
+  PayloadTooLargeError,
+  PayloadTypeError,
+  SignatureError,
+  UnsupportedPayloadError,
+  UnsupportedRuntimeError,
+  BaseProblem,
+  DecompressionLimit,
+  ErrorCode,
+};
@@ -0,0 +1,94 @@
+import { compressToUrl, decompressFromUrl, estimateSize, PayloadTooLargeError } from './index';
+import { dropComments } from './minify';
+
+// Text that compresses poorly, so that sizes stay predictable
+function noise(length: number, seed = 1): string {
+    let text = '';
+    for (let i = 0; i < length; i++) {
+        seed = (seed * 1103515245 + 12345) >>> 0;
+        text += String.fromCharCode(97 + (seed >>> 24) % 26);
+    }
+    return text;
+}
+
+describe('fit and estimateSize', () => {
+    const page = `<!DOCTYPE html>
+<html>
+  <head>
+    <style>/* ${noise(300, 2)} */ body { margin: 0; }</style>
+  </head>
+  <body>
+    <!--[if IE]>${noise(300, 3)}<![endif]-->
+    <p>${noise(200, 4)}</p>
+    <!-- ${noise(200, 5)} -->
+  </body>
+</html>`;
+
+    // Test 1: Estimates never throw
+    it('estimates without throwing', async () => {
+        const estimate = await estimateSize(page, { maxSize: 100 });
+        const { payload } = await compressToUrl(page, { maxSize: Infinity });
+        expect(estimate).toMatchObject({ size: payload.length, payloadSize: payload.length, maxSize: 100, fits: false });
+        expect((await estimateSize(page, { maxSize: Infinity })).fits).toBe(true);
+
+        const invalid = await estimateSize(42 as any);
+        expect(invalid.fits).toBe(false);
+        expect(invalid.size).toBeUndefined();
+        expect(invalid.error?.message).toBe('Expected string input for inputType "string"');
+    });
+
+    // Test 2: Estimates measure the share URL
+    it('estimates the share URL length with shareUrl', async () => {
+        const estimate = await estimateSize('Hello', { alphabet: 'url-query-safe', shareUrl: { base: 'https://example.com/view' } });
+        expect(estimate.size).toBe(estimate.payloadSize! + 'https://example.com/view?u='.length);
+    });
+
+    // Test 3: Strategies are applied until the payload fits
+    it('applies strategies in order until the payload fits', async () => {
+        const initial = (await compressToUrl(page, { codec: 'gzip', dictionary: false, maxSize: Infinity })).size;
+        const minified = (await compressToUrl(page, { minify: true, maxSize: Infinity })).size;
+        const result = await compressToUrl(page, { codec: 'gzip', dictionary: false, fit: true, maxSize: minified - 1 });
+        expect(result.fitReport!.map(step => step.strategy)).toEqual(['initial', 'codec', 'dictionary', 'minify', 'drop-comments']);
+        expect(result.fitReport![0].size).toBe(initial);
+        expect(result.size).toBeLessThan(minified);
+        expect(result.fitReport!.at(-1)!.size).toBe(result.size);
+        const { data } = await decompressFromUrl(result.payload);
+        expect(data).not.toContain('<!--');
+        expect(data).toContain('body { margin: 0; }');
+    });
+
+    // Test 4: Fitting stops as soon as the payload fits
+    it('stops at the first strategy that fits', async () => {
+        const result = await compressToUrl(page, { fit: true, maxSize: Infinity });
+        expect(result.fitReport).toEqual([{ strategy: 'initial', size: result.size }]);
+        expect(result.minifySavedBytes).toBeUndefined();
+    });
+
+    // Test 5: Nothing fits
+    it('throws with the report, or shards, when nothing fits', async () => {
+        const error = await compressToUrl(page, { fit: true, maxSize: 50 }).catch(caught => caught);
+        expect(error).toBeInstanceOf(PayloadTooLargeError);
+        expect(error.fitReport.map((step: { strategy: string }) => step.strategy)).toEqual(['initial', 'minify', 'drop-comments']);
+
+        const estimate = await estimateSize(page, { fit: true, maxSize: 50 });
+        expect(estimate.fits).toBe(false);
+        expect(estimate.fitReport).toEqual(error.fitReport);
+        expect(estimate.size).toBe(error.size);
+
+        const sharded = await compressToUrl(page, { fit: true, maxSize: 200, shard: true });
+        expect(sharded.chunks!.length).toBeGreaterThan(1);
+        expect(sharded.fitReport!.length).toBe(3);
+    });
+
+    // Test 6: Comment dropping keeps scripts and preformatted text
+    it('drops comments outside scripts and preformatted text', () => {
+        const html = '<!--a--><style>/* b */p{}</style><script>/* c */ "<!--d-->"</script><pre><!--e--></pre><!--[if IE]>f<![endif]-->';
+        expect(dropComments(html)).toBe('<style>p{}</style><script>/* c */ "<!--d-->"</script><pre><!--e--></pre>');
+    });
+
+    // Test 7: Comment dropping skips CSS strings and attribute values
+    it('leaves comment markers inside CSS strings and attribute values', () => {
+        const html = '<style>a::after{content:"/*"}/* x */b{content:\'*/\'}</style><p title="a > <!-- b -->">c</p><!-- d -->';
+        expect(dropComments(html)).toBe('<style>a::after{content:"/*"}b{content:\'*/\'}</style><p title="a > <!-- b -->">c</p>');
+    });
+});
@@ -0,0 +1,102 @@
+import { supportsDictionaryCompression } from './codecs';
+import { HTML_DICTIONARY_ID } from './dictionary';
+import { PayloadTooLargeError } from './errors';
+import { dropComments } from './minify';
+import type { CompressOptions, CompressResult } from './types';
+
+type FitStrategy = 'codec' | 'dictionary' | 'minify' | 'drop-comments';
+
+interface FitStep {
+  strategy: 'initial' | FitStrategy;
+  // Size maxSize is checked against after this step: the share URL with shareUrl, else the payload
+  size: number;
+}
+
+interface SizeEstimate {
+  // Undefined when the input could not be compressed at all, see `error`
+  size?: number;
+  payloadSize?: number;
+  maxSize: number;
+  fits: boolean;
+  codec?: CompressResult['codec'];
+  fitReport?: FitStep[];
+  error?: Error;
+}
+
+interface Attempt {
+  input: string | ArrayBuffer | Uint8Array;
+  options: CompressOptions;
+}
+
+type Compress = (input: Attempt['input'], options: CompressOptions) => Promise<CompressResult>;
+
+function isHtml(attempt: Attempt): boolean {
+  const { inputType = 'string', mimeType = inputType === 'string' ? 'text/html' : 'application/octet-stream' } = attempt.options;
+  return typeof attempt.input === 'string' && mimeType.split(';')[0].trim() === 'text/html';
+}
+
+// From the least to the most invasive. Each one builds on the previous attempt and
+// returns undefined where it cannot change anything.
+const STRATEGIES: [FitStrategy, (attempt: Attempt) => Attempt | undefined | Promise<Attempt | undefined>][] = [
+  ['codec', ({ input, options }) => (options.codec && options.codec !== 'auto' ? { input, options: { ...options, codec: 'auto' } } : undefined)],
+  ['dictionary', async ({ input, options }) => {
+    const tried = typeof options.dictionary === 'number' || (options.dictionary === undefined && isHtml({ input, options }));
+    // Delta payloads have no room for a dictionary
+    if (tried || options.base !== undefined || !await supportsDictionaryCompression() || (options.codec && options.codec !== 'auto' && options.codec !== 'deflate-raw')) return undefined;
+    return { input, options: { ...options, dictionary: HTML_DICTIONARY_ID } };
+  }],
+  ['minify', attempt => (isHtml(attempt) && !attempt.options.minify ? { input: attempt.input, options: { ...attempt.options, minify: true } } : undefined)],
+  ['drop-comments', attempt => {
+    if (!isHtml(attempt)) return undefined;
+    const input = dropComments(attempt.input as string);
+    return input === attempt.input ? undefined : { input, options: attempt.options };
+  }],
+];
+
+function measuredSize(result: CompressResult): number {
+  return result.url?.length ?? result.size;
+}
+
+// Compresses with the caller's options first, then applies one strategy after the
+// other until the result fits maxSize. Sharding, when enabled, is the last resort.
+export async function fitToSize(input: Attempt['input'], options: CompressOptions, compress: Compress): Promise<CompressResult> {
+  const { maxSize = 2083, shard = false } = options;
+  let attempt: Attempt = { input, options: { ...options, fit: false, shard: false, maxSize: Infinity } };
+  let result = await compress(attempt.input, attempt.options);
+  const fitReport: FitStep[] = [{ strategy: 'initial', size: measuredSize(result) }];
+
+  for (const [strategy, apply] of STRATEGIES) {
+    if (measuredSize(result) <= maxSize) break;
+    const next = await apply(attempt);
+    if (!next) continue;
+    attempt = next;
+    result = await compress(attempt.input, attempt.options);
+    fitReport.push({ strategy, size: measuredSize(result) });
+  }
+
+  const size = measuredSize(result);
+  if (size <= maxSize) return { ...result, fitReport };
+  if (shard) return { ...(await compress(attempt.input, { ...attempt.options, maxSize, shard })), fitReport };
+  throw new PayloadTooLargeError(`Compressed payload (${size} chars) exceeds max URL size (${maxSize} chars) after trying every fit strategy`, size, maxSize, fitReport);
+}
+
+// Dry run of compressToUrl that reports instead of throwing
+export async function estimateWith(input: Attempt['input'], options: CompressOptions, compress: Compress): Promise<SizeEstimate> {
+  const { maxSize = 2083 } = options;
+  try {
+    const result = await compress(input, options.fit ? { ...options, shard: false } : { ...options, shard: false, maxSize: Infinity });
+    const size = measuredSize(result);
+    const estimate: SizeEstimate = { size, payloadSize: result.size, maxSize, fits: size <= maxSize, codec: result.codec };
+    if (result.fitReport) estimate.fitReport = result.fitReport;
+    return estimate;
+  } catch (error) {
+    const estimate: SizeEstimate = { maxSize, fits: false, error: error instanceof Error ? error : new Error(String(error)) };
+    if (error instanceof PayloadTooLargeError && error.fitReport) {
+      estimate.size = error.size;
+      estimate.fitReport = error.fitReport;
+    }
+    return estimate;
+  }
+}
+
+export { FitStep, FitStrategy, SizeEstimate };
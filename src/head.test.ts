@@ -0,0 +1,86 @@
+import { readHeadMetadata, updateHeadMetadata } from './index';
+
+describe('head metadata', () => {
+    const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <title>Tom &amp; Jerry</title>
+  <meta content='Cat &quot;and&quot; mouse' property=og:title>
+  <META NAME="twitter:card" CONTENT="summary_large_image" />
+  <meta name="description" content="Classic">
+  <script type="application/ld+json">
+    {"@type": "WebPage", "name": "Tom"}
+  </script>
+</head>
+<body><meta property="og:image" content="ignored.png"><p>Body</p></body>
+</html>`;
+
+    // Test 1: Attribute order, quoting and entities
+    it('reads metadata regardless of attribute order and quoting', () => {
+        const metadata = readHeadMetadata(html);
+        expect(metadata.title).toBe('Tom & Jerry');
+        expect(metadata.meta).toEqual({ 'og:title': 'Cat "and" mouse', 'twitter:card': 'summary_large_image', description: 'Classic' });
+        expect(metadata.jsonLd).toHaveLength(1);
+        expect(metadata.jsonLd[0].data).toEqual({ '@type': 'WebPage', name: 'Tom' });
+
+        const broken = readHeadMetadata('<script type="application/ld+json">{"name": }</script>');
+        expect(broken.jsonLd[0].data).toBeUndefined();
+        expect(broken.jsonLd[0].error).toBeString();
+        expect(readHeadMetadata('<p>No head</p><title>Late</title>')).toEqual({ meta: {}, jsonLd: [] });
+    });
+
+    // Test 2: Edits touch only the changed values
+    it('updates values in place and escapes them', () => {
+        const updated = updateHeadMetadata(html, { title: 'Tom "&" <Jerry>', meta: { 'og:title': 'Say "hi"', 'twitter:card': 'summary' } });
+        expect(updated).toBe(html
+            .replace('Tom &amp; Jerry', 'Tom "&amp;" &lt;Jerry&gt;')
+            .replace(`content='Cat &quot;and&quot; mouse'`, 'content="Say &quot;hi&quot;"')
+            .replace('CONTENT="summary_large_image"', 'CONTENT="summary"'));
+        expect(readHeadMetadata(updated).meta['og:title']).toBe('Say "hi"');
+        expect(updateHeadMetadata(html, {})).toBe(html);
+    });
+
+    // Test 3: Missing tags are added, null removes
+    it('adds and removes elements', () => {
+        const updated = updateHeadMetadata(html, { meta: { 'og:image': 'https://example.com/a.png', description: null } });
+        expect(updated).toContain('  <script type="application/ld+json">\n    {"@type": "WebPage", "name": "Tom"}\n  </script>\n  <meta property="og:image" content="https://example.com/a.png">\n</head>');
+        expect(updated).not.toContain('Classic');
+        expect(updated).toContain('CONTENT="summary_large_image" />\n  <script');
+
+        const headless = updateHeadMetadata('<!DOCTYPE html><p>Hi</p>', { title: 'New', meta: { 'twitter:title': 'New' } });
+        expect(headless).toBe('<!DOCTYPE html>\n<head>\n  <title>New</title>\n  <meta name="twitter:title" content="New">\n</head><p>Hi</p>');
+        expect(() => updateHeadMetadata(html, { meta: { viewport: 'x' } })).toThrow('Unsupported meta name "viewport"');
+    });
+
+    // Test 4: JSON-LD
+    it('merges properties into the JSON-LD block', () => {
+        const updated = updateHeadMetadata(html, { jsonLd: { name: '</script><b>', url: 'https://example.com' } });
+        const [block] = readHeadMetadata(updated).jsonLd;
+        expect(block.data).toEqual({ '@type': 'WebPage', name: '</script><b>', url: 'https://example.com' });
+        expect(block.source).not.toContain('</script>');
+        expect(updated).toContain('  <script type="application/ld+json">\n    {\n      "@type": "WebPage",');
+        expect(readHeadMetadata(updateHeadMetadata(html, { jsonLd: null })).jsonLd).toEqual([]);
+
+        const added = updateHeadMetadata('<head>\n  <title>T</title>\n</head>', { jsonLd: { '@type': 'WebPage' } });
+        expect(readHeadMetadata(added).jsonLd[0].data).toEqual({ '@type': 'WebPage' });
+    });
+
+    // Test 5: Named character references
+    it('decodes every named reference and keeps unchanged values as written', () => {
+        const page = '<head><title>Caf&eacute; &mdash; Menu</title>'
+            + '<meta property="og:title" content="Caf&eacute; &mdash; Menu &copy 2024 &notin; &Eacute;">'
+            + '<meta property="og:url" content="https://example.com/?a=1&copy=2&amp;b=&#x263a;"></head>';
+        const metadata = readHeadMetadata(page);
+        expect(metadata.title).toBe('Café — Menu');
+        expect(metadata.meta['og:title']).toBe('Café — Menu © 2024 ∉ É');
+        expect(metadata.meta['og:url']).toBe('https://example.com/?a=1&copy=2&b=☺');
+
+        // The editor writes every field back on each change
+        const updated = updateHeadMetadata(page, { title: metadata.title, meta: { ...metadata.meta, 'og:description': 'Today' } });
+        expect(updated).toContain('<title>Caf&eacute; &mdash; Menu</title>');
+        expect(updated).toContain('content="Caf&eacute; &mdash; Menu &copy 2024 &notin; &Eacute;"');
+        expect(readHeadMetadata(updated)).toEqual({ ...metadata, meta: { ...metadata.meta, 'og:description': 'Today' } });
+        expect(readHeadMetadata(updateHeadMetadata(page, { title: 'Café — Dinner' })).title).toBe('Café — Dinner');
+    });
+});
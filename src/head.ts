@@ -0,0 +1,305 @@
+// Reads and edits the social metadata in a document's head: the title, meta tags
+// for description, og:* and twitter:*, and JSON-LD. Tags are found by tokenizing,
+// so attribute order and quoting do not matter, and edits replace only the bytes
+// they change.
+
+import { decodeEntities } from './entities';
+import { closingTagEnd, declarationEnd, rawTextEnd, readTag, type Attribute } from './tokenizer';
+
+interface JsonLdBlock {
+  source: string;
+  // Parsed JSON, unless `error` says why it could not be parsed
+  data?: unknown;
+  error?: string;
+}
+
+interface HeadMetadata {
+  title?: string;
+  // Meta tag contents by lowercase name or property, first tag first
+  meta: Record<string, string>;
+  jsonLd: JsonLdBlock[];
+}
+
+interface HeadMetadataUpdate {
+  // null removes the element
+  title?: string | null;
+  // Updates every tag with that name or property, or adds one. null removes them.
+  meta?: Record<string, string | null>;
+  // Properties merged into the first JSON-LD object, which is added when missing.
+  // null properties are removed; null removes every JSON-LD block.
+  jsonLd?: Record<string, unknown> | null;
+}
+
+interface HeadElement {
+  name: string;
+  start: number;
+  // End of the opening tag
+  tagEnd: number;
+  // End of the closing tag, for elements that have content
+  end: number;
+  attributes: Attribute[];
+  contentStart: number;
+  contentEnd: number;
+}
+
+interface HeadLayout {
+  elements: HeadElement[];
+  // End of the <head> opening tag and start of </head>, where present
+  headOpenEnd?: number;
+  headCloseStart?: number;
+  htmlOpenEnd?: number;
+  // Where the head ends when there is no </head>
+  end: number;
+}
+
+// Elements allowed in a head. Anything else starts the body.
+const HEAD_ELEMENTS = new Set(['title', 'meta', 'link', 'base', 'script', 'style', 'noscript', 'template']);
+const CONTENT_ELEMENTS = new Set(['title', 'script', 'style', 'noscript', 'template']);
+const METADATA_NAME = /^(?:description|og:.+|twitter:.+)$/;
+
+function escapeText(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function escapeAttribute(value: string): string {
+  return escapeText(value).replace(/"/g, '&quot;');
+}
+
+// Tokenizes the document up to the end of its head
+function parseHead(html: string): HeadLayout {
+  const layout: HeadLayout = { elements: [], end: html.length };
+  let i = 0;
+  while (i < html.length) {
+    const next = html.indexOf('<', i);
+    if (next === -1) break;
+    i = next;
+    const declaration = declarationEnd(html, i);
+    if (declaration !== undefined) {
+      i = declaration;
+      continue;
+    }
+    const tag = readTag(html, i);
+    if (!tag) {
+      i++;
+      continue;
+    }
+    const { name, end: tagEnd } = tag;
+    if (tag.closing) {
+      if (name === 'head') {
+        layout.headCloseStart = i;
+        layout.end = i;
+        return layout;
+      }
+      i = tagEnd;
+      continue;
+    }
+    if (name === 'html' || name === 'head') {
+      if (name === 'html') layout.htmlOpenEnd = tagEnd;
+      else layout.headOpenEnd = tagEnd;
+      i = tagEnd;
+      continue;
+    }
+    if (!HEAD_ELEMENTS.has(name)) {
+      layout.end = i;
+      return layout;
+    }
+    const element: HeadElement = {
+      name,
+      start: i,
+      tagEnd,
+      end: tagEnd,
+      attributes: tag.attributes.map(parsed => ({ ...parsed, value: decodeEntities(parsed.value, true) })),
+      contentStart: tagEnd,
+      contentEnd: tagEnd,
+    };
+    if (CONTENT_ELEMENTS.has(name)) {
+      // Contents end at the first closing tag, whatever they contain
+      element.contentEnd = rawTextEnd(html, name, tagEnd);
+      element.end = closingTagEnd(html, element.contentEnd);
+    }
+    layout.elements.push(element);
+    i = element.end;
+  }
+  layout.end = html.length;
+  return layout;
+}
+
+function attribute(element: HeadElement, name: string): Attribute | undefined {
+  return element.attributes.find(candidate => candidate.name === name);
+}
+
+// Meta tags use name for description and twitter:* and property for og:*, but
+// pages mix them up and scrapers accept both
+function metaName(element: HeadElement): string | undefined {
+  if (element.name !== 'meta') return undefined;
+  const name = (attribute(element, 'property') ?? attribute(element, 'name'))?.value.trim().toLowerCase();
+  return name && METADATA_NAME.test(name) ? name : undefined;
+}
+
+function isJsonLd(element: HeadElement): boolean {
+  return element.name === 'script' && attribute(element, 'type')?.value.trim().toLowerCase() === 'application/ld+json';
+}
+
+function readHeadMetadata(html: string): HeadMetadata {
+  const metadata: HeadMetadata = { meta: {}, jsonLd: [] };
+  for (const element of parseHead(html).elements) {
+    const name = metaName(element);
+    if (element.name === 'title' && metadata.title === undefined) {
+      metadata.title = decodeEntities(html.slice(element.contentStart, element.contentEnd)).trim();
+    } else if (name && !(name in metadata.meta)) {
+      metadata.meta[name] = attribute(element, 'content')?.value ?? '';
+    } else if (isJsonLd(element)) {
+      const source = html.slice(element.contentStart, element.contentEnd);
+      try {
+        metadata.jsonLd.push({ source, data: JSON.parse(source) });
+      } catch (error) {
+        metadata.jsonLd.push({ source, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+  }
+  return metadata;
+}
+
+interface Edit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+// Whitespace before an element on its own line, to indent new elements the same way
+function indentOf(html: string, position: number): string {
+  const lineStart = html.lastIndexOf('\n', position - 1) + 1;
+  const before = html.slice(lineStart, position);
+  return /^[ \t]*$/.test(before) ? before : '';
+}
+
+// Removes an element along with its line when nothing else is on it
+function removal(html: string, element: HeadElement): Edit {
+  const lineStart = html.lastIndexOf('\n', element.start - 1) + 1;
+  const after = /^[ \t]*(?:\r?\n|$)/.exec(html.slice(element.end));
+  if (after && /^[ \t]*$/.test(html.slice(lineStart, element.start))) {
+    return { start: lineStart, end: element.end + after[0].length, text: '' };
+  }
+  return { start: element.start, end: element.end, text: '' };
+}
+
+function serializeJsonLd(data: unknown, indent: string): string {
+  // '<' inside a string could close the script element
+  const json = JSON.stringify(data, null, 2).replace(/</g, '\\u003c');
+  return `\n${json.split('\n').map(line => `${indent}  ${line}`).join('\n')}\n${indent}`;
+}
+
+function newMetaTag(name: string, value: string): string {
+  const key = name.startsWith('og:') ? 'property' : 'name';
+  return `<meta ${key}="${escapeAttribute(name)}" content="${escapeAttribute(value)}">`;
+}
+
+// Applies an update and returns the new document. Bytes outside the edited
+// elements and attribute values are left as they were.
+function updateHeadMetadata(html: string, update: HeadMetadataUpdate): string {
+  const layout = parseHead(html);
+  const edits: Edit[] = [];
+  const additions: string[] = [];
+  const last = layout.elements[layout.elements.length - 1];
+  const indent = last ? indentOf(html, last.start) : '  ';
+
+  if (update.title !== undefined) {
+    const titles = layout.elements.filter(element => element.name === 'title');
+    if (update.title === null) {
+      edits.push(...titles.map(element => removal(html, element)));
+    } else if (titles.length) {
+      const [title] = titles;
+      if (decodeEntities(html.slice(title.contentStart, title.contentEnd)).trim() !== update.title) {
+        edits.push({ start: title.contentStart, end: title.contentEnd, text: escapeText(update.title) });
+      }
+    } else {
+      additions.push(`<title>${escapeText(update.title)}</title>`);
+    }
+  }
+
+  for (const [rawName, value] of Object.entries(update.meta ?? {})) {
+    const name = rawName.toLowerCase();
+    if (!METADATA_NAME.test(name)) throw new Error(`Unsupported meta name "${rawName}": use description, og:* or twitter:*`);
+    const tags = layout.elements.filter(element => metaName(element) === name);
+    if (value === null) {
+      edits.push(...tags.map(element => removal(html, element)));
+      continue;
+    }
+    if (!tags.length) additions.push(newMetaTag(name, value));
+    for (const element of tags) {
+      const content = attribute(element, 'content');
+      // Values that already read the same keep their bytes, references included
+      if (content?.value === value) continue;
+      const text = `"${escapeAttribute(value)}"`;
+      if (content && content.valueStart !== content.end) {
+        edits.push({ start: content.valueStart, end: content.end, text });
+      } else if (content) {
+        // Replaces an empty 'content=' along with its '='
+        edits.push({ start: content.nameEnd, end: content.end, text: `=${text}` });
+      } else {
+        // Right after the tag name, so self-closing slashes stay in place
+        const insertAt = element.start + 1 + element.name.length;
+        edits.push({ start: insertAt, end: insertAt, text: ` content=${text}` });
+      }
+    }
+  }
+
+  if (update.jsonLd !== undefined) {
+    const blocks = layout.elements.filter(isJsonLd);
+    if (update.jsonLd === null) {
+      edits.push(...blocks.map(element => removal(html, element)));
+    } else {
+      const first = blocks[0];
+      let current: unknown;
+      try {
+        current = first ? JSON.parse(html.slice(first.contentStart, first.contentEnd)) : {};
+      } catch {
+        current = {};
+      }
+      const merged: Record<string, unknown> = current && typeof current === 'object' && !Array.isArray(current) ? { ...current } : {};
+      for (const [key, value] of Object.entries(update.jsonLd)) {
+        if (value === null) delete merged[key];
+        else merged[key] = value;
+      }
+      if (first && JSON.stringify(merged) !== JSON.stringify(current)) {
+        edits.push({ start: first.contentStart, end: first.contentEnd, text: serializeJsonLd(merged, indentOf(html, first.start)) });
+      } else if (!first) {
+        additions.push(`<script type="application/ld+json">${serializeJsonLd(merged, indent)}</script>`);
+      }
+    }
+  }
+
+  if (additions.length) edits.push(insertion(html, layout, additions, indent));
+  edits.sort((a, b) => b.start - a.start || b.end - a.end);
+  let result = html;
+  for (const { start, end, text } of edits) result = result.slice(0, start) + text + result.slice(end);
+  return result;
+}
+
+// New elements go at the end of the head, indented like the elements before them.
+// Documents without a head get one.
+function insertion(html: string, layout: HeadLayout, lines: string[], indent: string): Edit {
+  const last = layout.elements[layout.elements.length - 1];
+  if (layout.headCloseStart !== undefined) {
+    const closeIndent = indentOf(html, layout.headCloseStart);
+    const lineStart = layout.headCloseStart - closeIndent.length;
+    if (lineStart > 0 && html[lineStart - 1] === '\n') {
+      return { start: lineStart, end: lineStart, text: lines.map(line => `${indent}${line}\n`).join('') };
+    }
+    return { start: layout.headCloseStart, end: layout.headCloseStart, text: lines.join('') };
+  }
+  if (last || layout.headOpenEnd !== undefined) {
+    const at = last ? last.end : layout.headOpenEnd!;
+    return { start: at, end: at, text: lines.map(line => `\n${indent}${line}`).join('') };
+  }
+  const at = layout.htmlOpenEnd ?? doctypeEnd(html);
+  const head = `<head>\n${lines.map(line => `${indent}${line}\n`).join('')}</head>`;
+  return { start: at, end: at, text: at ? `\n${head}` : `${head}\n` };
+}
+
+function doctypeEnd(html: string): number {
+  const doctype = /^\s*<!doctype[^>]*>/i.exec(html);
+  return doctype ? doctype[0].length : 0;
+}
+
+export { readHeadMetadata, updateHeadMetadata, HeadMetadata, HeadMetadataUpdate, JsonLdBlock };
@@ -0,0 +1,166 @@
+import type { BaseReference } from './delta';
+import { type AlphabetProfile, ALPHABETS, base85Decode, base85Encode, legacyBase32Decode, LEGACY_PREFIX } from './encoding';
+import { CorruptPayloadError, IncompletePayloadError, InvalidCharacterError, UnsupportedPayloadError } from './errors';
+import { SIGNATURE_BYTES } from './signature';
+import { readVarint, writeVarint } from './varint';
+
+// The first character of a payload tells which layout and alphabet follow. It is
+// taken from 0-9A-Z, which every alphabet profile contains.
+export const VERSION_MARKERS: Record<AlphabetProfile, string> = {
+  default: '1',
+  'url-query-safe': 'Q',
+  'fragment-safe': 'F',
+  'chat-safe': 'M',
+  'qr-alphanumeric': 'R',
+};
+
+// Headerless payloads are recognizable by their first character: the gzip magic
+// bytes always encode to '3' in the legacy base32 layout and to '8' in the block
+// layout. Those two characters are never used as version markers.
+export const HEADERLESS_CHAR = '8';
+
+// Marks one chunk of a payload that was split across several URLs
+export const CHUNK_MARKER = 'C';
+
+// Flags byte written right after the version marker
+export const FLAG_CODEC_MASK = 0b11;
+// A dictionary id byte follows the flags. Id 0 stands for a base document
+// instead: its varint id and 4-byte hash follow, and the data is a delta.
+export const FLAG_DICTIONARY = 0b100;
+// Content is a multi-file bundle instead of a single MIME-prefixed document
+export const FLAG_BUNDLE = 0b1000;
+// An HMAC signature of everything before it ends the payload
+export const FLAG_SIGNED = 0b10000;
+// The body is AES-GCM ciphertext of the compressed bytes
+export const FLAG_ENCRYPTED = 0b100000;
+// A metadata block comes before the MIME type of the content
+export const FLAG_METADATA = 0b1000000;
+// Content is a template id and its field values instead of a MIME-prefixed document
+export const FLAG_TEMPLATE = 0b10000000;
+
+type PayloadFormat = 'legacy-base32' | 'headerless' | 'v1';
+
+interface PayloadHeader {
+  format: PayloadFormat;
+  alphabet: AlphabetProfile;
+  flags: number;
+  dictionaryId?: number;
+  base?: BaseReference;
+  signature?: Uint8Array;
+}
+
+interface HeaderFields extends Pick<PayloadHeader, 'flags' | 'dictionaryId' | 'base'> {
+  // Bytes the header takes up
+  length: number;
+}
+
+interface DecodedPayload {
+  header: PayloadHeader;
+  body: Uint8Array;
+  // Header and body bytes, as covered by the signature
+  signedBytes: Uint8Array;
+}
+
+// Header and body bytes of a payload, without the signature
+export function serializePayload(header: Omit<PayloadHeader, 'format'>, body: Uint8Array): Uint8Array {
+  const headerBytes = [header.flags];
+  if (header.flags & FLAG_DICTIONARY && header.base) {
+    const { id, hash } = header.base;
+    headerBytes.push(0);
+    writeVarint(headerBytes, id);
+    headerBytes.push(hash >>> 24, (hash >>> 16) & 0xff, (hash >>> 8) & 0xff, hash & 0xff);
+  } else if (header.flags & FLAG_DICTIONARY) {
+    if (header.dictionaryId === undefined) throw new Error('Dictionary flag set without a dictionary id');
+    headerBytes.push(header.dictionaryId);
+  }
+  const bytes = new Uint8Array(headerBytes.length + body.length);
+  bytes.set(headerBytes);
+  bytes.set(body, headerBytes.length);
+  return bytes;
+}
+
+export function encodePayload(header: Omit<PayloadHeader, 'format'>, body: Uint8Array): string {
+  let bytes = serializePayload(header, body);
+  if (header.flags & FLAG_SIGNED) {
+    if (header.signature?.length !== SIGNATURE_BYTES) throw new Error('Signed flag set without a signature');
+    const signed = new Uint8Array(bytes.length + SIGNATURE_BYTES);
+    signed.set(bytes);
+    signed.set(header.signature, bytes.length);
+    bytes = signed;
+  }
+  return VERSION_MARKERS[header.alphabet] + base85Encode(bytes, header.alphabet);
+}
+
+// Alphabet of a payload or chunk, from its marker character
+export function alphabetFromMarker(marker: string): AlphabetProfile | undefined {
+  return (Object.keys(VERSION_MARKERS) as AlphabetProfile[]).find(profile => VERSION_MARKERS[profile] === marker);
+}
+
+export function decodePayload(payload: string): DecodedPayload {
+  if (payload.startsWith(LEGACY_PREFIX)) {
+    const body = legacyBase32Decode(payload);
+    return { header: { format: 'legacy-base32', alphabet: 'default', flags: 0 }, body, signedBytes: body };
+  }
+  if (payload.startsWith(HEADERLESS_CHAR)) {
+    const body = base85Decode(payload);
+    return { header: { format: 'headerless', alphabet: 'default', flags: 0 }, body, signedBytes: body };
+  }
+
+  if (payload.startsWith(CHUNK_MARKER)) {
+    throw new IncompletePayloadError('Payload is one chunk of a sharded payload; pass all chunks');
+  }
+
+  const alphabet = alphabetFromMarker(payload.charAt(0));
+  if (alphabet) {
+    let bytes = base85Decode(payload.slice(1), alphabet, 1);
+    const { length, ...fields } = readHeader(bytes)!;
+    const header: PayloadHeader = { format: 'v1', alphabet, ...fields };
+    if (header.flags & FLAG_SIGNED) {
+      if (bytes.length < length + SIGNATURE_BYTES) throw new CorruptPayloadError('Payload signature is truncated');
+      header.signature = bytes.subarray(bytes.length - SIGNATURE_BYTES);
+      bytes = bytes.subarray(0, bytes.length - SIGNATURE_BYTES);
+    }
+    return { header, body: bytes.subarray(length), signedBytes: bytes };
+  }
+  checkCharacters(payload);
+  throw new UnsupportedPayloadError(`Unsupported payload version: ${payload.charAt(0) || '(empty)'}`);
+}
+
+// Reads the flags byte and the dictionary id or base reference after it, from the
+// start of the header and body bytes. Streams pass `complete` false to get
+// undefined instead of an error while the header may still be cut short.
+export function readHeader(bytes: Uint8Array, complete = true): HeaderFields | undefined {
+  try {
+    if (!bytes.length) throw new CorruptPayloadError('Payload header is missing');
+    const fields: HeaderFields = { flags: bytes[0], length: 1 };
+    if (fields.flags & FLAG_DICTIONARY) {
+      if (bytes.length < 2) throw new CorruptPayloadError('Payload header is truncated');
+      const dictionaryId = bytes[1];
+      if (dictionaryId) {
+        fields.dictionaryId = dictionaryId;
+        fields.length = 2;
+      } else {
+        const cursor = { offset: 2 };
+        const id = readVarint(bytes, cursor, 'Payload header');
+        if (bytes.length < cursor.offset + 4) throw new CorruptPayloadError('Payload header is truncated');
+        const [a, b, c, d] = bytes.subarray(cursor.offset, cursor.offset + 4);
+        fields.base = { id, hash: ((a << 24) | (b << 16) | (c << 8) | d) >>> 0 };
+        fields.length = cursor.offset + 4;
+      }
+    }
+    return fields;
+  } catch (error) {
+    if (complete) throw error;
+    return undefined;
+  }
+}
+
+// Throws for the first character outside the default alphabet. `offset` is the
+// position of the text within the payload.
+export function checkCharacters(text: string, offset = 0): void {
+  const chars = [...text];
+  const invalid = chars.findIndex(char => !ALPHABETS.default.includes(char));
+  if (invalid !== -1) throw new InvalidCharacterError(offset + invalid, chars[invalid]);
+}
+
+export { PayloadFormat, PayloadHeader, HeaderFields, DecodedPayload };
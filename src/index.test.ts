@@ -1,7 +1,7 @@
 /// <reference lib="dom" />
 /// <reference lib="dom.iterable" />
 
-import { compressToUrl, decompressFromUrl, CompressResult, DecompressResult } from './index';
+import { compressToUrl, decompressFromUrl, registerDictionary, HTML_DICTIONARY_ID, CompressResult, DecompressResult } from './index';
 
 describe('compressToUrl and decompressFromUrl', () => {
     // Helper to check round-trip compression/decompression
@@ -133,4 +133,130 @@ describe('compressToUrl and decompressFromUrl', () => {
         const input = '0AZaz!()+-;<=>?@^_`{|}~\',:/"[]'; // One from digits, upper, lower, each special
         await testRoundTrip(input, 'single char per group');
     });
+
+    // Test 17: Payloads published in the legacy base32 format still decode
+    it('decodes legacy base32 payloads', async () => {
+        const html = await decompressFromUrl('3U5GG000000000G35D4QQA6HPSKCJJDHMB4J1D7J936SJIDNQ77J1D0303O43EQV3000000');
+        expect(html.data).toBe('<h1>Hello</h1>');
+        expect(html.mimeType).toBe('text/html');
+
+        const binary = await decompressFromUrl('3U5GG000000000G39CM2HI699H72PIECPV9SUJPE94MT2B9E5554RJ5LCBS5VNV0100AKKSA9CF00000');
+        expect(binary.data).toEqual(new Uint8Array([0, 255, 127, 128, 65]));
+        expect(binary.mimeType).toBe('application/octet-stream');
+    });
+
+    // Test 18: Block encoding uses 5 chars per 4 bytes
+    it('encodes 4 bytes into 5 characters', async () => {
+        const input = 'x'.repeat(500) + Array.from({ length: 300 }, (_, i) => String.fromCharCode(33 + (i * 7919) % 90)).join('');
+        const compressed = await compressToUrl(input);
+        expect(compressed.payload.startsWith('3U')).toBe(false);
+        expect(compressed.payload).toMatch(/[a-z]/);
+        await testRoundTrip(input, 'block encoding');
+    });
+
+    // Test 19: Truncated block is rejected
+    it('throws on invalid Base85 length', async () => {
+        await expect(decompressFromUrl('1abcdef')).rejects.toThrow('Invalid Base85 length');
+    });
+
+    // Test 20: Payloads carry a version header
+    it('writes a version header', async () => {
+        const { payload } = await compressToUrl('<p>versioned</p>');
+        expect(payload[0]).toBe('1');
+    });
+
+    // Test 21: Headerless block-encoded payloads still decode
+    it('decodes headerless block payloads', async () => {
+        const html = await decompressFromUrl('8?ne0000000nl;fmd2W}BaE]@o1l/K;5crHuc9"]Dt2aW-I}R]6!_iW');
+        expect(html.data).toBe('<h1>Hello</h1>');
+
+        const binary = await decompressFromUrl('8?ne0000000nm@KBa6YSL`qbKwCj)FC:jU*CuQJ+L-VS2<g+Le2L1e:cyv^~000');
+        expect(binary.data).toEqual(new Uint8Array([0, 255, 127, 128, 65]));
+    });
+
+    // Test 22: Unknown version marker
+    it('throws on unsupported payload version', async () => {
+        await expect(decompressFromUrl('Zabcdef')).rejects.toThrow('Unsupported payload version: Z');
+    });
+
+    // Test 23: Every codec round-trips
+    it.each(['gzip', 'deflate-raw', 'brotli'] as const)('round-trips with the %s codec', async (codec) => {
+        const input = '<p>Hello codec</p>';
+        const compressed = await compressToUrl(input, { codec });
+        expect(compressed.codec).toBe(codec);
+        const decompressed = await decompressFromUrl(compressed.payload);
+        expect(decompressed.data).toBe(input);
+    });
+
+    // Test 24: Auto codec keeps the shortest payload
+    it('picks the shortest codec in auto mode', async () => {
+        const input = '<h1>Hi</h1>';
+        const auto = await compressToUrl(input, { codec: 'auto' });
+        const gzip = await compressToUrl(input, { codec: 'gzip' });
+        expect(auto.size).toBeLessThan(gzip.size);
+        for (const codec of ['gzip', 'deflate-raw', 'brotli'] as const) {
+            expect(auto.size).toBeLessThanOrEqual((await compressToUrl(input, { codec })).size);
+        }
+    });
+
+    // Test 25: Unknown codec
+    it('throws on invalid codec', async () => {
+        await expect(compressToUrl('Hello', { codec: 'lzma' as any })).rejects.toThrow('Invalid codec');
+    });
+
+    // Test 26: Built-in HTML dictionary shrinks social metadata pages
+    it('uses the HTML dictionary for small pages', async () => {
+        const input = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <title>Demo</title>
+  <meta property="og:title" content="Demo">
+  <meta property="og:image" content="https://example.com/a.png">
+  <meta name="twitter:card" content="summary_large_image">
+</head>
+<body>
+</body>
+</html>`;
+        const withDictionary = await compressToUrl(input);
+        const withoutDictionary = await compressToUrl(input, { dictionary: false });
+        expect(withDictionary.dictionary).toBe(HTML_DICTIONARY_ID);
+        expect(withDictionary.size).toBeLessThan(withoutDictionary.size * 0.75);
+        await testRoundTrip(input, 'html dictionary');
+    });
+
+    // Test 27: Custom dictionaries
+    it('compresses with a registered dictionary', async () => {
+        registerDictionary(200, 'The quick brown fox jumps over the lazy dog');
+        const input = 'The quick brown fox jumps over the lazy dog again';
+        const compressed = await compressToUrl(input, { dictionary: 200, codec: 'deflate-raw', mimeType: 'text/plain' });
+        expect(compressed.dictionary).toBe(200);
+        const decompressed = await decompressFromUrl(compressed.payload);
+        expect(decompressed.data).toBe(input);
+        expect(() => registerDictionary(200, 'other')).toThrow('Dictionary id 200 is already registered');
+    });
+
+    // Test 28: Dictionaries only work with deflate-raw
+    it('throws when a dictionary is combined with another codec', async () => {
+        await expect(compressToUrl('Hello', { dictionary: HTML_DICTIONARY_ID, codec: 'gzip' })).rejects.toThrow(
+            'Preset dictionaries require the deflate-raw codec'
+        );
+        await expect(compressToUrl('Hello', { dictionary: 99 })).rejects.toThrow('Unknown dictionary id: 99');
+    });
+
+    // Test 29: Minify option
+    it('minifies HTML and reports saved bytes', async () => {
+        const input = '<div>\n  <pre>  keep  </pre>\n  <!-- drop -->\n</div>';
+        const compressed = await compressToUrl(input, { minify: true });
+        expect(compressed.minifySavedBytes).toBe(input.length - '<div><pre>  keep  </pre></div>'.length);
+        const decompressed = await decompressFromUrl(compressed.payload);
+        expect(decompressed.data).toBe('<div><pre>  keep  </pre></div>');
+    });
+
+    // Test 30: Minify only applies to HTML
+    it('throws when minifying non-HTML content', async () => {
+        await expect(compressToUrl('{"a": 1}', { minify: true, mimeType: 'application/json' })).rejects.toThrow(
+            'The minify option only applies to the text/html mimeType'
+        );
+    });
 });
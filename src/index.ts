@@ -1,190 +1,140 @@
 /// <reference lib="dom" />
 /// <reference lib="dom.iterable" />
 
-// Node.js zlib (dynamic import)
-let zlib: typeof import('zlib') | undefined;
-if (typeof process !== 'undefined' && process.versions?.node) {
-  zlib = await import('zlib');
+import { type Bundle, type BundleEntry, type BundleInput, type BundleOptions, compressBundle, decompressBundle, resolveBundle } from './bundle';
+import { type Backend, type BackendName, type Codec, setBackend } from './codecs';
+import { joinMimeType, packContent, packContentSync, readDocument, unpackContent, unpackContentSync } from './core';
+import { type BaseDocument, type BaseReference, encodeDelta, registerBase, resolveBaseOption } from './delta';
+import { HTML_DICTIONARY_ID, registerDictionary } from './dictionary';
+import { type AlphabetProfile, ALPHABETS } from './encoding';
+import type { EncryptionKey } from './encryption';
+import { BaseDocumentError, CompressToUrlError, CorruptPayloadError, DecompressionLimitError, DecryptionError, type ErrorCode, IncompletePayloadError, InvalidCharacterError, MissingMimeTypeError, PayloadExpiredError, PayloadTooLargeError, PayloadTypeError, SignatureError, UnsupportedPayloadError, UnsupportedRuntimeError } from './errors';
+import { estimateWith, fitToSize, type FitStep, type FitStrategy, type SizeEstimate } from './fit';
+import { type HeadMetadata, type HeadMetadataUpdate, type JsonLdBlock, readHeadMetadata, updateHeadMetadata } from './head';
+import { FLAG_BUNDLE, FLAG_METADATA, FLAG_TEMPLATE } from './header';
+import { type LintIssue, type LintPlatform, type LintRule, type LintSeverity, lintSocialMetadata } from './lint';
+import { type MetadataOptions, type PayloadMetadata, serializeMetadata } from './metadata';
+import { type MinifyResult, minifyHtml } from './minify';
+import { applyRenderPolicy, type RenderedContent, type RenderPolicy, type RenderPolicyOptions, stripScripts } from './policy';
+import { type RenderHandler, type RenderHandlerOptions, renderHandlerWith } from './render';
+import { joinChunks, splitPayload } from './shard';
+import type { SigningKey } from './signature';
+import { type CompressStreamOptions, type DecompressStream, createCompressStream, createDecompressStream } from './stream';
+import { type ParsedShareUrl, type Placement, type ShareUrlOptions, buildShareUrl, parseShareUrl } from './shareUrl';
+import { REDIRECT_TEMPLATE_ID, registerTemplate, renderTemplate, serializeTemplate, type TemplateDefinition, type TemplateFields, type TemplateOptions, type TemplateReference } from './template';
+import type { CompressOptions, CompressResult, DecompressOptions, DecompressResult, SyncCompressOptions, SyncDecompressOptions } from './types';
+
+// Puts the metadata block, if any, in front of the content
+function withMetadata(content: Uint8Array, metadata: MetadataOptions | undefined): { content: Uint8Array; flags: number } {
+  if (!metadata) return { content, flags: 0 };
+  const block = serializeMetadata(metadata);
+  const prefixed = new Uint8Array(block.length + content.length);
+  prefixed.set(block);
+  prefixed.set(content, block.length);
+  return { content: prefixed, flags: FLAG_METADATA };
 }
 
-interface CompressOptions {
-  maxSize?: number;
-  inputType?: 'string' | 'binary';
-  mimeType?: string;
-  normalizeWhitespace?: boolean;
-}
-
-interface CompressResult {
-  payload: string;
-  size: number;
-}
-
-interface DecompressOptions {
-  outputType?: 'string' | 'binary' | 'auto';
-}
-
-interface DecompressResult {
-  data: string | Uint8Array;
-  mimeType: string;
-}
-
-const alphabet = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz!()*+-;<=>?@^_`{|}~',:/\"[]";
-
-function base85Encode(bytes: Uint8Array): string {
-  let result = '';
-  let buffer = 0n;
-  let bufferBits = 0;
-
-  for (const byte of bytes) {
-    buffer = (buffer << 8n) + BigInt(byte);
-    bufferBits += 8;
-    while (bufferBits >= 5) {
-      bufferBits -= 5;
-      const value = Number((buffer >> BigInt(bufferBits)) & 0x1fn);
-      result += alphabet[value];
-    }
-  }
-
-  if (bufferBits > 0) {
-    const paddingBits = 5 - bufferBits;
-    buffer <<= BigInt(paddingBits);
-    const value = Number(buffer & 0x1fn);
-    result += alphabet[value];
-    const totalBytes = bytes.length;
-    const paddingNeeded = (totalBytes % 4 === 0 ? 0 : 4 - (totalBytes % 4)) || 0;
-    result += '~'.repeat(paddingNeeded);
-  }
-
-  return result;
-}
+// Turns the input into the content bytes packed by compressToUrl and compressToUrlSync
+function prepareContent(input: string | ArrayBuffer | Uint8Array, options: CompressOptions): { content: Uint8Array; mimeType: string; flags: number; base?: BaseReference; minifySavedBytes?: number } {
+  const { inputType = 'string', mimeType = inputType === 'string' ? 'text/html' : 'application/octet-stream', normalizeWhitespace = false, minify = false, metadata } = options;
 
-function base85Decode(str: string): Uint8Array {
-  let buffer = 0n;
-  let bufferBits = 0;
-  const bytes: number[] = [];
-
-  const trimmedStr = str.replace(/~+$/, '');
-  const paddingChars = str.length - trimmedStr.length;
-  const totalBytesEstimate = Math.floor((trimmedStr.length * 5 - paddingChars * 8) / 8) || 1;
-
-  for (const char of trimmedStr) {
-    const value = alphabet.indexOf(char);
-    if (value === -1) throw new Error('Invalid Base85 char');
-    buffer = (buffer << 5n) + BigInt(value);
-    bufferBits += 5;
-    while (bufferBits >= 8) {
-      bufferBits -= 8;
-      bytes.push(Number((buffer >> BigInt(bufferBits)) & 0xffn));
-    }
+  if (minify && mimeType.split(';')[0].trim() !== 'text/html') {
+    throw new Error('The minify option only applies to the text/html mimeType');
   }
 
-  if (bufferBits > 0) {
-    const shift = 8 - bufferBits;
-    buffer <<= BigInt(shift);
-    bytes.push(Number(buffer & 0xffn));
-  }
-
-  const expectedLength = totalBytesEstimate + paddingChars;
-  while (bytes.length > expectedLength) bytes.pop();
-
-  return new Uint8Array(bytes);
-}
-
-async function compressToUrl(input: string | ArrayBuffer | Uint8Array, options: CompressOptions = {}): Promise<CompressResult> {
-  const { maxSize = 2083, inputType = 'string', mimeType = inputType === 'string' ? 'text/html' : 'application/octet-stream', normalizeWhitespace = false } = options;
-
   let data: Uint8Array;
+  let minifySavedBytes: number | undefined;
   const encoder = new TextEncoder();
   if (inputType === 'string') {
     if (typeof input !== 'string') throw new Error('Expected string input for inputType "string"');
-    data = encoder.encode(normalizeWhitespace ? input.replace(/\s+/g, ' ').trim() : input);
+    let text = normalizeWhitespace ? input.replace(/\s+/g, ' ').trim() : input;
+    if (minify) {
+      const minified = minifyHtml(text);
+      text = minified.html;
+      minifySavedBytes = minified.savedBytes;
+    }
+    data = encoder.encode(text);
   } else if (inputType === 'binary') {
     if (typeof input === 'string') throw new Error('Expected binary input for inputType "binary"');
+    if (minify) throw new Error('The minify option requires inputType "string"');
     data = input instanceof Uint8Array ? input : new Uint8Array(input);
   } else {
     throw new Error('Invalid inputType: use "string" or "binary"');
   }
 
-  const mimePrefix = `${mimeType}:`;
-  const mimePrefixBytes = encoder.encode(mimePrefix);
-  const fullData = new Uint8Array(mimePrefixBytes.length + data.length);
-  fullData.set(mimePrefixBytes);
-  fullData.set(data, mimePrefixBytes.length);
-
-  let compressedBytes: Uint8Array;
-  if (zlib) {
-    compressedBytes = await new Promise((resolve, reject) => {
-      zlib.gzip(fullData, { level: 9 }, (err, result) => {
-        if (err) reject(err);
-        else resolve(result);
-      });
-    });
-  } else {
-    if (typeof CompressionStream === 'undefined') {
-      throw new Error('CompressionStream unavailable; modern browser or Worker required');
-    }
-    const stream = new Blob([fullData]).stream();
-    const compressedReadableStream = stream.pipeThrough(new CompressionStream('gzip'));
-    const compressedResponse = await new Response(compressedReadableStream);
-    const blob = await compressedResponse.blob();
-    const buffer = await blob.arrayBuffer();
-    compressedBytes = new Uint8Array(buffer);
+  // Only the data becomes a delta, so the MIME type stays readable without the base
+  let base: BaseReference | undefined;
+  if (options.base !== undefined) {
+    const resolved = resolveBaseOption(options.base);
+    data = encodeDelta(resolved.bytes, data);
+    base = resolved.reference;
   }
+  return { ...withMetadata(joinMimeType(mimeType, data), metadata), mimeType, base, minifySavedBytes };
+}
 
-  const payload = base85Encode(compressedBytes);
-  const size = payload.length;
-  if (size > maxSize) {
-    throw new Error(`Compressed payload (${size} chars) exceeds max URL size (${maxSize} chars)`);
-  }
+async function compressToUrl(input: string | ArrayBuffer | Uint8Array, options: CompressOptions = {}): Promise<CompressResult> {
+  if (options.fit) return fitToSize(input, options, compressToUrl);
+  const { maxSize = 2083, codec = 'auto', dictionary, alphabet, encrypt, sign, shard = false, shareUrl } = options;
+  const { content, mimeType, flags, base, minifySavedBytes } = prepareContent(input, options);
+  const result = await packContent(content, { maxSize, codec, dictionary, alphabet, encrypt, sign, shard, shareUrl, flags, base, html: mimeType === 'text/html' });
+  return { ...result, minifySavedBytes };
+}
 
-  return { payload, size };
+// Same as compressToUrl on the pure-JS codec. Brotli, signing and encryption are
+// not available synchronously.
+function compressToUrlSync(input: string | ArrayBuffer | Uint8Array, options: SyncCompressOptions = {}): CompressResult {
+  // Plain JS callers can still pass sign or encrypt, which packContentSync rejects
+  const { maxSize = 2083, codec = 'auto', dictionary, alphabet, encrypt, sign, shard = false, shareUrl } = options as CompressOptions;
+  const { content, mimeType, flags, base, minifySavedBytes } = prepareContent(input, options);
+  const result = packContentSync(content, { maxSize, codec, dictionary, alphabet, encrypt, sign, shard, shareUrl, flags, base, html: mimeType === 'text/html' });
+  return { ...result, minifySavedBytes };
 }
 
-async function decompressFromUrl(payload: string, options: DecompressOptions = {}): Promise<DecompressResult> {
-  const { outputType = 'auto' } = options;
+// Stores a registered template id and its field values instead of the document,
+// which decompressFromUrl renders again
+async function compressTemplate(id: number, fields: TemplateFields, options: TemplateOptions = {}): Promise<CompressResult> {
+  const { metadata, ...packOptions } = options;
+  const record = serializeTemplate(id, fields);
+  const { content, flags } = withMetadata(record.content, metadata);
+  return packContent(content, { ...packOptions, flags: flags | FLAG_TEMPLATE, html: record.mimeType === 'text/html' });
+}
 
-  const compressedBytes = base85Decode(payload);
+// Reports the size compressToUrl would produce, and whether it fits maxSize,
+// without throwing. With `fit`, the size is the one after fitting.
+function estimateSize(input: string | ArrayBuffer | Uint8Array, options: CompressOptions = {}): Promise<SizeEstimate> {
+  return estimateWith(input, options, compressToUrl);
+}
 
-  let decompressedBytes: Uint8Array;
-  if (zlib) {
-    decompressedBytes = await new Promise((resolve, reject) => {
-      zlib.gunzip(compressedBytes, (err, result) => {
-        if (err) reject(err);
-        else resolve(result);
-      });
-    });
-  } else {
-    if (typeof DecompressionStream === 'undefined') {
-      throw new Error('DecompressionStream unavailable; modern browser or Worker required');
-    }
-    const stream = new Blob([compressedBytes]).stream();
-    const decompressedReadableStream = stream.pipeThrough(new DecompressionStream('gzip'));
-    const decompressedResponse = await new Response(decompressedReadableStream);
-    const blob = await decompressedResponse.blob();
-    const buffer = await blob.arrayBuffer();
-    decompressedBytes = new Uint8Array(buffer);
-  }
+async function decompressFromUrl(payload: string | string[], options: DecompressOptions = {}): Promise<DecompressResult> {
+  const { outputType = 'auto', allowExpired, base, ...unpackOptions } = options;
 
-  // Find the colon byte (ASCII 58) to separate MIME type and data
-  const colonIndex = decompressedBytes.indexOf(58);
-  if (colonIndex === -1) {
-    throw new Error('MIME type not found in payload');
+  const { header, content } = await unpackContent(payload, unpackOptions);
+  if (header.flags & FLAG_BUNDLE) {
+    throw new PayloadTypeError('Payload is a bundle; use decompressBundle');
   }
+  return readDocument(header, content, { outputType, allowExpired, base, maxOutputBytes: options.maxOutputBytes });
+}
 
-  const decoder = new TextDecoder();
-  const mimeType = decoder.decode(decompressedBytes.subarray(0, colonIndex));
-  const dataBytes = decompressedBytes.subarray(colonIndex + 1);
-
-  const isTextType = mimeType.startsWith('text/') || mimeType === 'application/json';
-  const returnAsString = outputType === 'string' || (outputType === 'auto' && isTextType);
+function decompressFromUrlSync(payload: string | string[], options: SyncDecompressOptions = {}): DecompressResult {
+  const { outputType = 'auto', allowExpired, base, ...unpackOptions } = options;
 
-  if (returnAsString) {
-    return { data: decoder.decode(dataBytes), mimeType };
+  const { header, content } = unpackContentSync(payload, unpackOptions);
+  if (header.flags & FLAG_BUNDLE) {
+    throw new PayloadTypeError('Payload is a bundle; use decompressBundle');
   }
-  return { data: dataBytes, mimeType };
+  return readDocument(header, content, { outputType, allowExpired, base, maxOutputBytes: options.maxOutputBytes });
+}
+
+// Maps a GET request for /?u=<payload> or /u/<payload> to a response with the
+// decompressed content, for Workers, Bun.serve and node servers with fetch APIs.
+// Failures redirect to the editor with ?error=.
+function createRenderHandler(options: RenderHandlerOptions = {}): RenderHandler {
+  return renderHandlerWith(options, decompressFromUrl);
 }
 
-export { compressToUrl, decompressFromUrl, CompressOptions, CompressResult, DecompressOptions, DecompressResult };
+export { compressToUrl, decompressFromUrl, estimateSize, compressTemplate, renderTemplate, registerTemplate, REDIRECT_TEMPLATE_ID, createRenderHandler, applyRenderPolicy, stripScripts, compressToUrlSync, decompressFromUrlSync, setBackend, createCompressStream, createDecompressStream, compressBundle, decompressBundle, resolveBundle, splitPayload, joinChunks, buildShareUrl, parseShareUrl, registerDictionary, registerBase, HTML_DICTIONARY_ID, ALPHABETS, minifyHtml, readHeadMetadata, updateHeadMetadata, lintSocialMetadata,
+  BaseDocumentError, CompressToUrlError, CorruptPayloadError, DecompressionLimitError, DecryptionError, IncompletePayloadError, InvalidCharacterError, MissingMimeTypeError, PayloadExpiredError, PayloadTooLargeError, PayloadTypeError, SignatureError, UnsupportedPayloadError, UnsupportedRuntimeError };
+export type { AlphabetProfile, Backend, BackendName, BaseDocument, BaseReference, Bundle, BundleEntry, BundleInput, BundleOptions, Codec, CompressOptions, CompressResult, CompressStreamOptions, DecompressOptions, DecompressResult, DecompressStream, EncryptionKey, ErrorCode, FitStep, FitStrategy, HeadMetadata, HeadMetadataUpdate, JsonLdBlock, LintIssue, LintPlatform, LintRule, LintSeverity, MetadataOptions, MinifyResult, ParsedShareUrl, PayloadMetadata, Placement, RenderedContent, RenderHandler, RenderHandlerOptions, RenderPolicy, RenderPolicyOptions, ShareUrlOptions, SigningKey, SizeEstimate, SyncCompressOptions, SyncDecompressOptions, TemplateDefinition, TemplateFields, TemplateOptions, TemplateReference };
 
 if (typeof window !== 'undefined') {
   (window as any).compressToUrl = compressToUrl;
@@ -0,0 +1,86 @@
+import { lintSocialMetadata, updateHeadMetadata } from './index';
+
+describe('social metadata lint', () => {
+    const complete = `<!DOCTYPE html><html><head>
+  <title>Launch</title>
+  <meta property="og:title" content="Launch">
+  <meta property="og:description" content="Our new product">
+  <meta property="og:image" content="https://example.com/card.png">
+  <meta property="og:url" content="https://example.com/launch">
+  <meta name="twitter:card" content="summary_large_image">
+</head><body></body></html>`;
+
+    const rules = (html: string) => lintSocialMetadata(html).map(issue => issue.rule);
+
+    // Test 1: A complete card has no issues
+    it('accepts complete metadata', () => {
+        expect(lintSocialMetadata(complete)).toEqual([]);
+    });
+
+    // Test 2: Missing tags
+    it('reports missing tags with fixes where a value is known', () => {
+        const html = `<head><title>T</title><meta name="twitter:image" content="https://example.com/x.png">
+<script type="application/ld+json">{"url": "https://example.com/t"}</script></head>`;
+        const issues = lintSocialMetadata(html);
+        expect(issues.map(issue => [issue.rule, issue.severity])).toEqual([
+            ['missing-og-image', 'error'],
+            ['missing-og-url', 'warning'],
+            ['missing-twitter-card', 'warning'],
+        ]);
+        const fixed = issues.reduce((current, issue) => updateHeadMetadata(current, issue.fix!), html);
+        expect(fixed).toContain('<meta property="og:image" content="https://example.com/x.png">');
+        expect(fixed).toContain('<meta property="og:url" content="https://example.com/t">');
+        expect(fixed).toContain('<meta name="twitter:card" content="summary_large_image">');
+        expect(rules(fixed)).toEqual([]);
+        expect(lintSocialMetadata('<p>empty</p>').find(issue => issue.rule === 'missing-og-image')!.fix).toBeUndefined();
+    });
+
+    // Test 3: Image URLs
+    it('flags relative and non-https image URLs', () => {
+        const relative = updateHeadMetadata(complete, { meta: { 'og:image': '/card.png', 'twitter:image': 'http://cdn.example.com/card.png' } });
+        const issues = lintSocialMetadata(relative);
+        expect(issues.map(issue => issue.rule)).toEqual(['relative-image-url', 'insecure-image-url', 'conflicting-values']);
+        expect(issues[0].fix).toEqual({ meta: { 'og:image': 'https://example.com/card.png' } });
+        expect(issues[1].fix).toEqual({ meta: { 'twitter:image': 'https://cdn.example.com/card.png' } });
+        expect(lintSocialMetadata(updateHeadMetadata(complete, { meta: { 'og:image': '//cdn.example.com/a.png' } }))[0].fix)
+            .toEqual({ meta: { 'og:image': 'https://cdn.example.com/a.png' } });
+    });
+
+    // Test 4: Length limits per platform
+    it('reports titles and descriptions over each platform limit', () => {
+        const title = 'A launch announcement title that goes on for quite a bit longer than previews show';
+        const issues = lintSocialMetadata(updateHeadMetadata(complete, { meta: { 'og:title': title, 'og:description': 'x'.repeat(150) } }));
+        expect(issues.map(issue => [issue.rule, issue.platform])).toEqual([
+            ['title-too-long', 'twitter'],
+            ['title-too-long', 'linkedin'],
+            ['description-too-long', 'linkedin'],
+        ]);
+        const fix = issues[0].fix!.meta!['twitter:title']!;
+        expect([...fix].length).toBeLessThanOrEqual(70);
+        expect(fix).toBe('A launch announcement title that goes on for quite a bit longer than…');
+        const fixed = updateHeadMetadata(complete, { meta: { 'og:title': title, 'twitter:title': fix } });
+        expect(rules(fixed)).toEqual(['title-too-long']);
+    });
+
+    // Test 5: JSON-LD and conflicts
+    it('reports invalid JSON-LD and conflicting og and twitter values', () => {
+        const html = updateHeadMetadata(complete, { meta: { 'twitter:title': 'Other' } })
+            .replace('</head>', '<script type="application/ld+json">{"name": "Launch",}</script></head>');
+        const issues = lintSocialMetadata(html);
+        expect(issues.map(issue => issue.rule)).toEqual(['invalid-json-ld', 'conflicting-values']);
+        expect(issues[0].fix).toBeUndefined();
+        expect(issues[0].message).toStartWith('JSON-LD block 1 is not valid JSON');
+        expect(issues[1].fix).toEqual({ meta: { 'twitter:title': 'Launch' } });
+    });
+
+    // Test 6: URLs that do not parse
+    it('reports relative images without a fix when a URL does not parse', () => {
+        const badPage = updateHeadMetadata(complete, { meta: { 'og:url': 'https://[bad', 'og:image': '/card.png' } });
+        const [issue] = lintSocialMetadata(badPage);
+        expect(issue.rule).toBe('relative-image-url');
+        expect(issue.fix).toBeUndefined();
+        const badImage = lintSocialMetadata(updateHeadMetadata(complete, { meta: { 'og:image': '\\\\[x' } }));
+        expect(badImage[0].rule).toBe('relative-image-url');
+        expect(badImage[0].fix).toBeUndefined();
+    });
+});
@@ -0,0 +1,183 @@
+// Checks the social metadata of a page against what link previews need. Issues
+// that can be fixed come with a HeadMetadataUpdate for updateHeadMetadata.
+
+import { type HeadMetadata, type HeadMetadataUpdate, readHeadMetadata } from './head';
+
+type LintSeverity = 'error' | 'warning';
+
+type LintPlatform = 'facebook' | 'twitter' | 'linkedin';
+
+type LintRule =
+  | 'missing-og-image'
+  | 'relative-image-url'
+  | 'insecure-image-url'
+  | 'missing-og-url'
+  | 'missing-twitter-card'
+  | 'title-too-long'
+  | 'description-too-long'
+  | 'invalid-json-ld'
+  | 'conflicting-values';
+
+interface LintIssue {
+  rule: LintRule;
+  severity: LintSeverity;
+  message: string;
+  // Meta tag the issue is about, when there is one
+  field?: string;
+  // Set for rules that only apply to one platform
+  platform?: LintPlatform;
+  fix?: HeadMetadataUpdate;
+}
+
+// Characters shown before a preview cuts the text off
+const LENGTH_LIMITS: Record<LintPlatform, { title: number; description: number }> = {
+  facebook: { title: 88, description: 200 },
+  twitter: { title: 70, description: 200 },
+  linkedin: { title: 70, description: 100 },
+};
+
+// Tags each platform reads, in order of preference
+const SOURCES: Record<LintPlatform, { title: string[]; description: string[] }> = {
+  facebook: { title: ['og:title', 'title'], description: ['og:description', 'description'] },
+  twitter: { title: ['twitter:title', 'og:title', 'title'], description: ['twitter:description', 'og:description', 'description'] },
+  linkedin: { title: ['og:title', 'title'], description: ['og:description', 'description'] },
+};
+
+const PLATFORM_NAMES: Record<LintPlatform, string> = { facebook: 'Facebook', twitter: 'X (Twitter)', linkedin: 'LinkedIn' };
+
+function length(value: string): number {
+  return [...value].length;
+}
+
+// Cuts at a word boundary when there is one in the second half, and marks the cut
+function truncate(value: string, limit: number): string {
+  const chars = [...value].slice(0, limit - 1);
+  let cut = chars.join('');
+  const space = cut.lastIndexOf(' ');
+  if (space > cut.length / 2) cut = cut.slice(0, space);
+  return `${cut.trimEnd()}…`;
+}
+
+// A twitter:* value shortened from the og:* one on purpose
+function isShortened(short: string, long: string): boolean {
+  return short.endsWith('…') && long.startsWith(short.slice(0, -1).trimEnd());
+}
+
+function jsonLdString(metadata: HeadMetadata, key: string): string | undefined {
+  for (const { data } of metadata.jsonLd) {
+    const value = data && typeof data === 'object' ? (data as Record<string, unknown>)[key] : undefined;
+    if (typeof value === 'string' && value) return value;
+  }
+  return undefined;
+}
+
+function isAbsoluteHttpUrl(value: string): boolean {
+  return /^https?:\/\//i.test(value);
+}
+
+// Page and image URLs are typed by hand in the editor, so either may not parse yet
+function resolveUrl(value: string, base: string): string | undefined {
+  try {
+    return new URL(value, base).href;
+  } catch {
+    return undefined;
+  }
+}
+
+function imageIssues(name: string, value: string, pageUrl: string | undefined): LintIssue[] {
+  if (!value) return [];
+  if (value.startsWith('//')) {
+    return [{ rule: 'relative-image-url', severity: 'error', field: name, message: `${name} is protocol-relative; scrapers need an absolute https URL`, fix: { meta: { [name]: `https:${value}` } } }];
+  }
+  if (!/^[a-z][a-z0-9+.-]*:/i.test(value)) {
+    const issue: LintIssue = { rule: 'relative-image-url', severity: 'error', field: name, message: `${name} is a relative URL; scrapers need an absolute https URL` };
+    const resolved = pageUrl && isAbsoluteHttpUrl(pageUrl) ? resolveUrl(value, pageUrl) : undefined;
+    if (resolved) issue.fix = { meta: { [name]: resolved.replace(/^http:/i, 'https:') } };
+    return [issue];
+  }
+  if (/^http:/i.test(value)) {
+    return [{ rule: 'insecure-image-url', severity: 'warning', field: name, message: `${name} uses http; some platforms only load https images`, fix: { meta: { [name]: value.replace(/^http:/i, 'https:') } } }];
+  }
+  if (!/^https:/i.test(value)) {
+    return [{ rule: 'insecure-image-url', severity: 'warning', field: name, message: `${name} must be an https URL` }];
+  }
+  return [];
+}
+
+function lengthIssues(metadata: HeadMetadata, kind: 'title' | 'description'): LintIssue[] {
+  const issues: LintIssue[] = [];
+  const valueOf = (name: string) => (name === 'title' ? metadata.title : metadata.meta[name]);
+  for (const platform of Object.keys(LENGTH_LIMITS) as LintPlatform[]) {
+    const source = SOURCES[platform][kind].find(name => valueOf(name));
+    if (!source) continue;
+    const value = valueOf(source)!;
+    const limit = LENGTH_LIMITS[platform][kind];
+    if (length(value) <= limit) continue;
+    // The plain <title> and description also show in search results, so the fix
+    // goes to the tag the platform reads first
+    const target = SOURCES[platform][kind][0];
+    issues.push({
+      rule: kind === 'title' ? 'title-too-long' : 'description-too-long',
+      severity: 'warning',
+      field: target,
+      platform,
+      message: `${PLATFORM_NAMES[platform]} cuts the ${kind} off after ${limit} characters (${length(value)} in ${source})`,
+      fix: { meta: { [target]: truncate(value, limit) } },
+    });
+  }
+  return issues;
+}
+
+function lintSocialMetadata(html: string): LintIssue[] {
+  const metadata = readHeadMetadata(html);
+  const { meta } = metadata;
+  const issues: LintIssue[] = [];
+  const pageUrl = meta['og:url'] || jsonLdString(metadata, 'url');
+
+  if (!meta['og:image']) {
+    const fallback = [meta['twitter:image'], jsonLdString(metadata, 'image')].find(value => value && isAbsoluteHttpUrl(value));
+    const issue: LintIssue = { rule: 'missing-og-image', severity: 'error', field: 'og:image', message: 'og:image is missing, so most previews show no image' };
+    if (fallback) issue.fix = { meta: { 'og:image': fallback } };
+    issues.push(issue);
+  }
+  for (const name of ['og:image', 'twitter:image']) {
+    if (name === 'twitter:image' && meta[name] === meta['og:image']) continue;
+    issues.push(...imageIssues(name, meta[name] ?? '', pageUrl));
+  }
+
+  if (!meta['og:url']) {
+    const issue: LintIssue = { rule: 'missing-og-url', severity: 'warning', field: 'og:url', message: 'og:url is missing; shares of this page are not grouped under one URL' };
+    const url = jsonLdString(metadata, 'url');
+    if (url && isAbsoluteHttpUrl(url)) issue.fix = { meta: { 'og:url': url } };
+    issues.push(issue);
+  }
+  if (!meta['twitter:card']) {
+    const card = meta['og:image'] || meta['twitter:image'] ? 'summary_large_image' : 'summary';
+    issues.push({ rule: 'missing-twitter-card', severity: 'warning', field: 'twitter:card', message: 'twitter:card is missing, so X (Twitter) picks the card type', fix: { meta: { 'twitter:card': card } } });
+  }
+
+  issues.push(...lengthIssues(metadata, 'title'), ...lengthIssues(metadata, 'description'));
+
+  metadata.jsonLd.forEach((block, index) => {
+    if (block.error) {
+      issues.push({ rule: 'invalid-json-ld', severity: 'error', message: `JSON-LD block ${index + 1} is not valid JSON: ${block.error}` });
+    }
+  });
+
+  for (const kind of ['title', 'description', 'image']) {
+    const og = meta[`og:${kind}`];
+    const twitter = meta[`twitter:${kind}`];
+    if (og && twitter && og !== twitter && !isShortened(twitter, og)) {
+      issues.push({
+        rule: 'conflicting-values',
+        severity: 'warning',
+        field: `twitter:${kind}`,
+        message: `og:${kind} and twitter:${kind} differ, so previews vary between platforms`,
+        fix: { meta: { [`twitter:${kind}`]: og } },
+      });
+    }
+  }
+  return issues;
+}
+
+export { lintSocialMetadata, LintIssue, LintPlatform, LintRule, LintSeverity };
@@ -0,0 +1,111 @@
+import { compressToUrl, compressToUrlSync, CorruptPayloadError, createDecompressStream, decompressFromUrl, decompressFromUrlSync, PayloadExpiredError } from './index';
+import { readMetadata, serializeMetadata } from './metadata';
+
+async function readBytes(readable: ReadableStream<Uint8Array>): Promise<Uint8Array> {
+    const chunks: number[] = [];
+    for await (const chunk of readable) chunks.push(...chunk);
+    return new Uint8Array(chunks);
+}
+
+describe('payload metadata', () => {
+    const html = '<!DOCTYPE html><html><body><h1>Demo</h1></body></html>';
+    const created = new Date('2026-01-02T03:04:05.678Z');
+    const future = Date.now() + 3600_000;
+
+    // Test 1: Every field round-trips, times to the second
+    it('round-trips title, charset, times and custom fields', async () => {
+        const { payload } = await compressToUrl(html, {
+            metadata: { title: 'Démo ✓', charset: 'utf-8', created, expires: future, fields: { author: 'Ada', tag: '' } },
+        });
+        const { data, metadata } = await decompressFromUrl(payload);
+        expect(data).toBe(html);
+        expect(metadata).toEqual({
+            title: 'Démo ✓',
+            charset: 'utf-8',
+            created: new Date('2026-01-02T03:04:05Z'),
+            expires: new Date(Math.floor(future / 1000) * 1000),
+            fields: { author: 'Ada', tag: '' },
+        });
+    });
+
+    // Test 2: Payloads without metadata
+    it('leaves metadata out when none was given', async () => {
+        const { payload } = await compressToUrl(html);
+        expect('metadata' in (await decompressFromUrl(payload))).toBe(false);
+        const withTitle = await compressToUrl(html, { metadata: { title: 'Demo' } });
+        expect((await decompressFromUrl(withTitle.payload)).metadata).toEqual({ title: 'Demo' });
+    });
+
+    // Test 3: Expired payloads
+    it('rejects expired payloads unless allowExpired is set', async () => {
+        const expires = new Date(Date.now() - 60_000);
+        const { payload } = await compressToUrl(html, { metadata: { expires } });
+        const error = await decompressFromUrl(payload).catch(caught => caught);
+        expect(error).toBeInstanceOf(PayloadExpiredError);
+        expect(error.code).toBe('PAYLOAD_EXPIRED');
+        expect(error.expires.getTime()).toBe(Math.floor(expires.getTime() / 1000) * 1000);
+        expect((await decompressFromUrl(payload, { allowExpired: true })).data).toBe(html);
+    });
+
+    // Test 4: Synchronous API
+    it('reads and checks metadata in the sync API', () => {
+        const { payload } = compressToUrlSync(html, { metadata: { title: 'Sync', expires: 0 } });
+        expect(() => decompressFromUrlSync(payload)).toThrow(PayloadExpiredError);
+        expect(decompressFromUrlSync(payload, { allowExpired: true }).metadata).toEqual({ title: 'Sync', expires: new Date(0) });
+    });
+
+    // Test 5: Streams expose the metadata and enforce expiry
+    it('resolves metadata in the decompress stream', async () => {
+        const { payload } = await compressToUrl(html, { metadata: { title: 'Streamed', fields: { a: '1' } } });
+        const stream = createDecompressStream();
+        const writer = stream.writable.getWriter();
+        writer.write(payload);
+        writer.close();
+        expect(new TextDecoder().decode(await readBytes(stream.readable))).toBe(html);
+        expect(await stream.metadata).toEqual({ title: 'Streamed', fields: { a: '1' } });
+        expect(await stream.mimeType).toBe('text/html');
+
+        const expired = await compressToUrl(html, { metadata: { expires: 1000 } });
+        const expiredStream = createDecompressStream();
+        const expiredWriter = expiredStream.writable.getWriter();
+        expiredWriter.write(expired.payload).catch(() => {});
+        expiredWriter.close().catch(() => {});
+        await expect(readBytes(expiredStream.readable)).rejects.toThrow(PayloadExpiredError);
+        await expect(expiredStream.metadata).rejects.toThrow(PayloadExpiredError);
+    });
+
+    // Test 6: Signed and encrypted payloads carry metadata too
+    it('combines metadata with signing and encryption', async () => {
+        const { payload, encryptionKey } = await compressToUrl(html, { metadata: { title: 'Secret' }, encrypt: true, sign: 'key' });
+        const { metadata } = await decompressFromUrl(payload, { decrypt: encryptionKey, verify: 'key' });
+        expect(metadata).toEqual({ title: 'Secret' });
+    });
+
+    // Test 7: Tags from later versions are skipped
+    it('skips unknown metadata entries', () => {
+        const block = serializeMetadata({ title: 'Known' });
+        const extended = new Uint8Array([block[0] + 4, ...block.subarray(1), 99, 2, 7, 7, 0x41]);
+        const { metadata, end } = readMetadata(extended);
+        expect(metadata).toEqual({ title: 'Known' });
+        expect(end).toBe(extended.length - 1);
+    });
+
+    // Test 8: Invalid metadata options
+    it('throws on invalid metadata', async () => {
+        await expect(compressToUrl(html, { metadata: { title: 42 as any } })).rejects.toThrow('Invalid metadata title: expected a string');
+        await expect(compressToUrl(html, { metadata: { expires: new Date(NaN) } })).rejects.toThrow('Invalid metadata expires');
+        await expect(compressToUrl(html, { metadata: { fields: { n: 1 as any } } })).rejects.toThrow('Invalid metadata field "n"');
+        for (const charset of ['bogus-charset', 'utf-8\r\nX: y', '€']) {
+            await expect(compressToUrl(html, { metadata: { charset } })).rejects.toThrow('Invalid metadata charset');
+        }
+    });
+
+    // Test 9: Charsets that are not encoding labels are rejected when read
+    it('throws CorruptPayloadError for an invalid charset in the payload', () => {
+        const block = serializeMetadata({ title: 'x' });
+        const charset = new TextEncoder().encode('utf-8\r\nX: y');
+        const crafted = new Uint8Array([block[0] + 2 + charset.length, ...block.subarray(1), 2, charset.length, ...charset]);
+        expect(() => readMetadata(crafted)).toThrow(CorruptPayloadError);
+        expect(() => readMetadata(crafted)).toThrow('Metadata charset is not a known encoding label');
+    });
+});
@@ -0,0 +1,171 @@
+import { CorruptPayloadError, PayloadExpiredError } from './errors';
+import { readVarint, writeVarint } from './varint';
+
+// Metadata as passed to compressToUrl. Times are stored to the second.
+interface MetadataOptions {
+  title?: string;
+  charset?: string;
+  created?: Date | number;
+  expires?: Date | number;
+  // Small custom key/value pairs
+  fields?: Record<string, string>;
+}
+
+interface PayloadMetadata {
+  title?: string;
+  charset?: string;
+  created?: Date;
+  expires?: Date;
+  fields?: Record<string, string>;
+}
+
+// Every entry is a tag byte followed by a varint length and that many bytes, so
+// readers skip tags added by later versions.
+const TAG_TITLE = 1;
+const TAG_CHARSET = 2;
+const TAG_CREATED = 3;
+const TAG_EXPIRES = 4;
+const TAG_FIELD = 5;
+
+// RFC 7230 token, the grammar of MIME types and their parameter names and values
+export const HTTP_TOKEN = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// The charset ends up in a Content-Type header, so it must be a token that names
+// an encoding TextDecoder knows
+function isCharset(value: string): boolean {
+  if (!HTTP_TOKEN.test(value)) return false;
+  try {
+    new TextDecoder(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function toSeconds(time: Date | number, name: string): number {
+  const ms = time instanceof Date ? time.getTime() : time;
+  if (!Number.isFinite(ms) || ms < 0) throw new Error(`Invalid metadata ${name}: use a Date or a timestamp after 1970`);
+  return Math.floor(ms / 1000);
+}
+
+function writeString(out: number[], value: string) {
+  const bytes = encoder.encode(value);
+  writeVarint(out, bytes.length);
+  for (const byte of bytes) out.push(byte);
+}
+
+// Layout: varint length of the whole block, then its entries. The content that
+// follows is the usual MIME-prefixed document.
+export function serializeMetadata(metadata: MetadataOptions): Uint8Array {
+  const entries: number[] = [];
+  const addEntry = (tag: number, write: (out: number[]) => void) => {
+    const value: number[] = [];
+    write(value);
+    entries.push(tag);
+    writeVarint(entries, value.length);
+    entries.push(...value);
+  };
+  const addString = (tag: number, name: string, value: string | undefined) => {
+    if (value === undefined) return;
+    if (typeof value !== 'string') throw new Error(`Invalid metadata ${name}: expected a string`);
+    addEntry(tag, out => out.push(...encoder.encode(value)));
+  };
+
+  addString(TAG_TITLE, 'title', metadata.title);
+  if (typeof metadata.charset === 'string' && !isCharset(metadata.charset)) {
+    throw new Error(`Invalid metadata charset: ${JSON.stringify(metadata.charset)} is not a known encoding label`);
+  }
+  addString(TAG_CHARSET, 'charset', metadata.charset);
+  if (metadata.created !== undefined) {
+    const seconds = toSeconds(metadata.created, 'created');
+    addEntry(TAG_CREATED, out => writeVarint(out, seconds));
+  }
+  if (metadata.expires !== undefined) {
+    const seconds = toSeconds(metadata.expires, 'expires');
+    addEntry(TAG_EXPIRES, out => writeVarint(out, seconds));
+  }
+  for (const [key, value] of Object.entries(metadata.fields ?? {})) {
+    if (typeof value !== 'string') throw new Error(`Invalid metadata field "${key}": expected a string`);
+    addEntry(TAG_FIELD, out => {
+      writeString(out, key);
+      writeString(out, value);
+    });
+  }
+
+  const block: number[] = [];
+  writeVarint(block, entries.length);
+  return new Uint8Array([...block, ...entries]);
+}
+
+// Where the metadata block at the start of `bytes` ends, or undefined while
+// more bytes are needed to tell. Streams use this before parsing.
+export function metadataEnd(bytes: Uint8Array): number | undefined {
+  const cursor = { offset: 0 };
+  try {
+    const length = readVarint(bytes, cursor, 'Metadata');
+    const end = cursor.offset + length;
+    return end <= bytes.length ? end : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Parses the metadata block at the start of `bytes`. `end` is where the document
+// content begins.
+export function readMetadata(bytes: Uint8Array): { metadata: PayloadMetadata; end: number } {
+  const cursor = { offset: 0 };
+  const length = readVarint(bytes, cursor, 'Metadata');
+  const end = cursor.offset + length;
+  if (end > bytes.length) throw new CorruptPayloadError('Metadata is truncated');
+  const block = bytes.subarray(0, end);
+
+  const metadata: PayloadMetadata = {};
+  while (cursor.offset < end) {
+    const tag = block[cursor.offset++];
+    const size = readVarint(block, cursor, 'Metadata');
+    if (cursor.offset + size > end) throw new CorruptPayloadError('Metadata is truncated');
+    const value = block.subarray(cursor.offset, cursor.offset + size);
+    cursor.offset += size;
+    const valueCursor = { offset: 0 };
+    switch (tag) {
+      case TAG_TITLE:
+        metadata.title = decoder.decode(value);
+        break;
+      case TAG_CHARSET:
+        metadata.charset = decoder.decode(value);
+        if (!isCharset(metadata.charset)) throw new CorruptPayloadError('Metadata charset is not a known encoding label');
+        break;
+      case TAG_CREATED:
+        metadata.created = new Date(readVarint(value, valueCursor, 'Metadata') * 1000);
+        break;
+      case TAG_EXPIRES:
+        metadata.expires = new Date(readVarint(value, valueCursor, 'Metadata') * 1000);
+        break;
+      case TAG_FIELD: {
+        const readString = () => {
+          const stringLength = readVarint(value, valueCursor, 'Metadata');
+          if (valueCursor.offset + stringLength > value.length) throw new CorruptPayloadError('Metadata is truncated');
+          const text = decoder.decode(value.subarray(valueCursor.offset, valueCursor.offset + stringLength));
+          valueCursor.offset += stringLength;
+          return text;
+        };
+        const key = readString();
+        (metadata.fields ??= {})[key] = readString();
+        break;
+      }
+    }
+  }
+  return { metadata, end };
+}
+
+// Expiry is checked against the local clock, unless the caller allows expired payloads
+export function checkExpiry(metadata: PayloadMetadata, allowExpired = false) {
+  if (!allowExpired && metadata.expires && metadata.expires.getTime() <= Date.now()) {
+    throw new PayloadExpiredError(metadata.expires);
+  }
+}
+
+export { MetadataOptions, PayloadMetadata };
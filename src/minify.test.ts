@@ -0,0 +1,82 @@
+import { minifyHtml } from './minify';
+
+describe('minifyHtml', () => {
+    // Test 1: Whitespace and comments
+    it('collapses whitespace and drops comments', () => {
+        const input = `<!DOCTYPE html>
+<html>
+  <head>
+    <!-- page title -->
+    <title>  Hello   World </title>
+  </head>
+  <body>
+    <p>Some   <b>bold</b>
+       text</p>
+  </body>
+</html>`;
+        expect(minifyHtml(input).html).toBe('<!DOCTYPE html><html><head><title>Hello World</title></head><body><p>Some <b>bold</b> text</p></body></html>');
+    });
+
+    // Test 2: Whitespace-sensitive elements
+    it('leaves pre, textarea, script and style untouched', () => {
+        const input = `<div>
+  <pre>  line 1
+    line 2  </pre>
+  <textarea>  keep
+  this </textarea>
+  <script>const s = "a    b"; // <b>  </b></script>
+  <style>p  >  a { color: red }</style>
+  <script type="application/ld+json">
+    { "name": "A   B" }
+  </script>
+</div>`;
+        const { html } = minifyHtml(input);
+        expect(html).toContain('<pre>  line 1\n    line 2  </pre>');
+        expect(html).toContain('<textarea>  keep\n  this </textarea>');
+        expect(html).toContain('<script>const s = "a    b"; // <b>  </b></script>');
+        expect(html).toContain('<style>p  >  a { color: red }</style>');
+        expect(html).toContain('\n    { "name": "A   B" }\n  </script>');
+    });
+
+    // Test 3: Attributes
+    it('shortens boolean attributes and optional quotes', () => {
+        const input = '<input type="checkbox" checked="checked" disabled="" value="a b" data-x=\'1"2\' title="">';
+        expect(minifyHtml(input).html).toBe('<input type=checkbox checked disabled value="a b" data-x=\'1"2\' title="">');
+    });
+
+    // Test 4: Self-closing tags in foreign content
+    it('keeps the slash of self-closing tags', () => {
+        expect(minifyHtml('<svg><path d="M0"  /><rect width="4"/></svg>').html).toBe('<svg><path d=M0 /><rect width=4 /></svg>');
+    });
+
+    // Test 5: Conditional comments and no-break spaces
+    it('keeps conditional comments and no-break spaces', () => {
+        const input = '<p>a  b <!-- note --> c</p><!--[if IE]><p>old</p><![endif]-->';
+        expect(minifyHtml(input).html).toBe('<p>a  b c</p><!--[if IE]><p>old</p><![endif]-->');
+    });
+
+    // Test 6: Saved bytes
+    it('reports saved bytes', () => {
+        const input = '<b>   é   </b>';
+        const result = minifyHtml(input);
+        expect(result.html).toBe('<b> é </b>');
+        expect(result.savedBytes).toBe(4);
+    });
+
+    // Test 7: Whitespace around elements that do not render
+    it('keeps a space between inline text on both sides of scripts and metadata', () => {
+        expect(minifyHtml('<p>Hello <script>track()</script> world</p>').html).toBe('<p>Hello <script>track()</script>world</p>');
+        expect(minifyHtml('<p>Hello<script>track()</script> world</p>').html).toBe('<p>Hello<script>track()</script> world</p>');
+        expect(minifyHtml('<span>a</span> <style>b{}</style> <link rel=x> <b>c</b>').html).toBe('<span>a</span> <style>b{}</style><link rel=x><b>c</b>');
+        expect(minifyHtml('<div>Hi</div>\n<script>x()</script>\n<p>There</p>').html).toBe('<div>Hi</div><script>x()</script><p>There</p>');
+        expect(minifyHtml('<p>Read <noscript> or enable JS </noscript>more</p>').html).toBe('<p>Read <noscript> or enable JS </noscript>more</p>');
+    });
+
+    // Test 8: A slash that ends an unquoted value
+    it('keeps a trailing slash that belongs to an unquoted attribute value', () => {
+        expect(minifyHtml('<a href=/docs/>x</a>').html).toBe('<a href=/docs/>x</a>');
+        expect(minifyHtml('<a href=/docs/ >x</a>').html).toBe('<a href=/docs/>x</a>');
+        expect(minifyHtml('<img src=a.png />').html).toBe('<img src=a.png />');
+        expect(minifyHtml('<input title="a"/><br/>').html).toBe('<input title=a /><br/>');
+    });
+});
@@ -0,0 +1,228 @@
+// Conservative HTML minifier. It only touches what browsers ignore anyway: comments,
+// whitespace runs in text and whitespace around block-level tags. Contents of
+// whitespace-sensitive elements and of scripts and styles are copied verbatim.
+
+import { declarationEnd, rawTextEnd, readTag, type Attribute } from './tokenizer';
+
+const RAW_TEXT_ELEMENTS = new Set(['pre', 'textarea', 'script', 'style', 'xmp']);
+
+// Whitespace next to these tags never renders
+const BLOCK_ELEMENTS = new Set([
+  'html', 'head', 'body', 'title',
+  'div', 'p', 'pre', 'ul', 'ol', 'li', 'dl', 'dt', 'dd', 'table', 'caption', 'colgroup', 'col',
+  'thead', 'tbody', 'tfoot', 'tr', 'td', 'th', 'section', 'article', 'header', 'footer', 'nav',
+  'main', 'aside', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'hr', 'br', 'form', 'fieldset', 'legend',
+  'figure', 'figcaption', 'blockquote', 'address', 'details', 'summary', 'option', 'optgroup',
+]);
+
+// Elements that never render. Whitespace on both sides of them meets as if they
+// were not there, so it only goes when the nearest rendered neighbour is a block.
+const INVISIBLE_ELEMENTS = new Set(['title', 'meta', 'link', 'base', 'script', 'style', 'noscript', 'template']);
+const VOID_INVISIBLE_ELEMENTS = new Set(['meta', 'link', 'base']);
+
+const BOOLEAN_ATTRIBUTES = new Set([
+  'allowfullscreen', 'async', 'autofocus', 'autoplay', 'checked', 'controls', 'default', 'defer',
+  'disabled', 'formnovalidate', 'hidden', 'inert', 'ismap', 'itemscope', 'loop', 'multiple', 'muted',
+  'nomodule', 'novalidate', 'open', 'playsinline', 'readonly', 'required', 'reversed', 'selected',
+]);
+
+// Characters that force an attribute value to stay quoted
+const UNSAFE_UNQUOTED = /[\s"'`=<>]/;
+
+type Token =
+  | { type: 'text'; value: string }
+  | { type: 'tag'; name: string; value: string }
+  | { type: 'verbatim'; value: string }
+  // Content of a raw-text element
+  | { type: 'raw'; value: string };
+
+interface MinifyResult {
+  html: string;
+  savedBytes: number;
+}
+
+function minifyAttributes(html: string, attributes: Attribute[]): string {
+  let result = '';
+  for (const { start, nameEnd, valueStart, end, value } of attributes) {
+    // Names keep the case they were written in
+    const name = html.slice(start, nameEnd);
+    if (valueStart === end) {
+      result += ` ${name}`;
+      continue;
+    }
+    const rawValue = html.slice(valueStart, end);
+    const quoted = rawValue[0] === '"' || rawValue[0] === "'";
+    if (BOOLEAN_ATTRIBUTES.has(name.toLowerCase()) && (value === '' || value.toLowerCase() === name.toLowerCase())) {
+      result += ` ${name}`;
+    } else if (value && !UNSAFE_UNQUOTED.test(value)) {
+      result += ` ${name}=${value}`;
+    } else {
+      result += ` ${name}=${quoted ? rawValue : `"${value}"`}`;
+    }
+  }
+  return result;
+}
+
+function tokenize(html: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  // Text on both sides of a dropped comment becomes a single text token
+  const pushText = (value: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last?.type === 'text') last.value += value;
+    else tokens.push({ type: 'text', value });
+  };
+
+  while (i < html.length) {
+    const declaration = declarationEnd(html, i);
+    if (declaration !== undefined) {
+      // Conditional comments carry markup for old browsers
+      if (!html.startsWith('<!--', i) || html.startsWith('<!--[if', i)) {
+        tokens.push({ type: 'verbatim', value: html.slice(i, declaration) });
+      }
+      i = declaration;
+      continue;
+    }
+
+    const tag = readTag(html, i);
+    if (tag) {
+      const slash = tag.closing ? '/' : '';
+      const tagName = html.slice(i + 1 + slash.length, tag.nameEnd);
+      const attributes = tag.closing ? '' : minifyAttributes(html, tag.attributes);
+      // An unquoted value would swallow the slash of a self-closing tag
+      const endsUnquoted = /=[^"'\s]+$/.test(attributes);
+      const close = tag.selfClosing ? `${endsUnquoted ? ' ' : ''}/>` : '>';
+      tokens.push({ type: 'tag', name: tag.name, value: `<${slash}${tagName}${attributes}${close}` });
+      i = tag.end;
+
+      if (!tag.closing && !tag.selfClosing && RAW_TEXT_ELEMENTS.has(tag.name)) {
+        const contentEnd = rawTextEnd(html, tag.name, i);
+        tokens.push({ type: 'raw', value: html.slice(i, contentEnd) });
+        i = contentEnd;
+      }
+      continue;
+    }
+
+    const next = html.indexOf('<', i + 1);
+    const stop = next === -1 ? html.length : next;
+    pushText(html.slice(i, stop));
+    i = stop;
+  }
+
+  return tokens;
+}
+
+function isBlockBoundary(token: Token | undefined): boolean {
+  return !token || (token.type === 'tag' && BLOCK_ELEMENTS.has(token.name)) || (token.type === 'verbatim' && token.value.startsWith('<!'));
+}
+
+function isInvisible(token: Token): boolean {
+  return (token.type === 'tag' && INVISIBLE_ELEMENTS.has(token.name)) || token.type === 'raw';
+}
+
+// The nearest token before (step -1) or after (step 1) the one at index that
+// renders. Whole invisible elements are skipped, but text inside one stops at
+// its edge and gets the tag there.
+function visibleNeighbour(tokens: Token[], index: number, step: number): Token | undefined {
+  let depth = 0;
+  for (let i = index + step; tokens[i]; i += step) {
+    const token = tokens[i];
+    if (!isInvisible(token)) return token;
+    if (token.type !== 'tag' || VOID_INVISIBLE_ELEMENTS.has(token.name)) continue;
+    const entering = token.value.startsWith('</') === step < 0;
+    if (entering) depth++;
+    else if (depth-- === 0) return token;
+  }
+  return undefined;
+}
+
+export function minifyHtml(html: string): MinifyResult {
+  const tokens = tokenize(html);
+  let result = '';
+  // Whether the last rendered text ended with a space, which makes a leading one redundant
+  let spaceBefore = false;
+
+  tokens.forEach((token, index) => {
+    if (token.type !== 'text') {
+      result += token.value;
+      if (!isInvisible(token)) spaceBefore = false;
+      return;
+    }
+    // Only HTML whitespace collapses, a literal no-break space must stay
+    let text = token.value.replace(/[ \t\n\r\f]+/g, ' ');
+    const previous = visibleNeighbour(tokens, index, -1);
+    if (isBlockBoundary(previous) || (previous?.type === 'text' && spaceBefore)) text = text.replace(/^ /, '');
+    if (isBlockBoundary(visibleNeighbour(tokens, index, 1))) text = text.replace(/ $/, '');
+    result += text;
+    if (text) spaceBefore = text.endsWith(' ');
+  });
+
+  const encoder = new TextEncoder();
+  return { html: result, savedBytes: encoder.encode(html).length - encoder.encode(result).length };
+}
+
+// Removes /* */ comments from CSS, leaving strings alone
+function dropCssComments(css: string): string {
+  let result = '';
+  let i = 0;
+  while (i < css.length) {
+    const char = css[i];
+    if (char === '"' || char === "'") {
+      // A string ends at its quote or, unterminated, at a newline
+      let end = i + 1;
+      while (end < css.length && css[end] !== char && css[end] !== '\n') end += css[end] === '\\' ? 2 : 1;
+      end = Math.min(end + 1, css.length);
+      result += css.slice(i, end);
+      i = end;
+    } else if (css.startsWith('/*', i)) {
+      const end = css.indexOf('*/', i + 2);
+      i = end === -1 ? css.length : end + 2;
+    } else {
+      result += char;
+      i++;
+    }
+  }
+  return result;
+}
+
+// More aggressive than minifyHtml: also drops conditional comments, and comments
+// inside <style> elements. Other raw-text elements are copied verbatim, and
+// everything else keeps its bytes.
+export function dropComments(html: string): string {
+  let result = '';
+  let i = 0;
+  while (i < html.length) {
+    const next = html.indexOf('<', i);
+    if (next === -1) {
+      result += html.slice(i);
+      break;
+    }
+    result += html.slice(i, next);
+    i = next;
+
+    const declaration = declarationEnd(html, i);
+    if (declaration !== undefined) {
+      if (!html.startsWith('<!--', i)) result += html.slice(i, declaration);
+      i = declaration;
+      continue;
+    }
+    const tag = readTag(html, i);
+    if (!tag) {
+      result += '<';
+      i++;
+      continue;
+    }
+    result += html.slice(i, tag.end);
+    i = tag.end;
+    if (!tag.closing && !tag.selfClosing && RAW_TEXT_ELEMENTS.has(tag.name)) {
+      const contentEnd = rawTextEnd(html, tag.name, i);
+      const content = html.slice(i, contentEnd);
+      result += tag.name === 'style' ? dropCssComments(content) : content;
+      i = contentEnd;
+    }
+  }
+  return result;
+}
+
+export { MinifyResult };
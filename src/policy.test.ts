@@ -0,0 +1,113 @@
+import { applyRenderPolicy, compressToUrl, createRenderHandler, stripScripts } from './index';
+
+describe('render policies', () => {
+    const head = '<head><meta charset="utf-8"><title>Card</title><meta property="og:title" content="Card">'
+        + '<script type="application/ld+json">{"@type":"Article"}</script><script src="/app.js"></script></head>';
+    const html = `<!DOCTYPE html><html>${head}<body onload="steal()"><a href="javascript:steal()">x</a><p>Hi</p></body></html>`;
+    const result = { data: html, mimeType: 'text/html' };
+
+    // Test 1: Script stripping
+    it('removes scripts, handlers and script URLs but keeps JSON-LD', () => {
+        const stripped = stripScripts(html);
+        expect(stripped).not.toContain('app.js');
+        expect(stripped).not.toContain('steal');
+        expect(stripped).toContain('<script type="application/ld+json">{"@type":"Article"}</script>');
+        expect(stripped).toContain('<meta property="og:title" content="Card">');
+        expect(stripped).toContain('<!DOCTYPE html>');
+        expect(stripScripts('<img src=x OnError=alert(1)><a href=" jav&#x61;script:x">y</a><iframe srcdoc="<script>1</script>"></iframe>'))
+            .toBe('<img src=x><a>y</a><iframe></iframe>');
+        expect(stripScripts('<object data="x.swf"><param name=a></object><p>1 < 2</p>')).toBe('<p>1 &lt; 2</p>');
+    });
+
+    // Test 2: raw and csp leave the content alone
+    it('serves raw content unchanged and csp content with a strict policy', () => {
+        const raw = applyRenderPolicy(result);
+        expect(raw).toEqual({ body: html, contentType: 'text/html; charset=utf-8', headers: {} });
+        const csp = applyRenderPolicy(result, 'csp');
+        expect(csp.body).toBe(html);
+        expect(csp.headers['Content-Security-Policy']).toContain("default-src 'none'");
+        expect(csp.headers['Content-Security-Policy']).toContain('sandbox');
+    });
+
+    // Test 3: Sandboxed iframes
+    it('wraps the content in a sandboxed iframe with the head metadata', () => {
+        const inline = applyRenderPolicy(result, 'sandbox-iframe').body as string;
+        expect(inline).toContain('<meta property="og:title" content="Card">');
+        expect(inline).toContain('{"@type":"Article"}');
+        expect(inline.slice(0, inline.indexOf('</head>'))).not.toContain('app.js');
+        expect(inline).toMatch(/<iframe sandbox="allow-scripts[^"]*" srcdoc="[^"]*<p>Hi<\/p>/);
+        expect(inline).not.toContain('allow-same-origin');
+
+        const separate = applyRenderPolicy(result, 'sandbox-iframe', { sandboxSrc: 'https://sandbox.example.net/u/abc' });
+        expect(separate.body).toContain('src="https://sandbox.example.net/u/abc"');
+        expect(separate.body).not.toContain('srcdoc');
+        expect(separate.headers['Content-Security-Policy']).toContain("script-src 'none'");
+    });
+
+    // Test 4: Non-HTML content and invalid policies
+    it('serves SVG with the CSP and rejects unknown policies', () => {
+        const svg = applyRenderPolicy({ data: '<svg onload="x()"/>', mimeType: 'image/svg+xml' }, 'no-script');
+        expect(svg.body).toBe('<svg onload="x()"/>');
+        expect(svg.headers['Content-Security-Policy']).toContain("default-src 'none'");
+        expect(() => applyRenderPolicy(result, 'none' as any)).toThrow('Invalid policy');
+        expect(() => applyRenderPolicy({ data: '', mimeType: 'text/html\r\nX: y' })).toThrow('is not a valid Content-Type');
+        expect(() => applyRenderPolicy({ data: '', mimeType: 'text/html', metadata: { charset: '€' } })).toThrow('is not a valid Content-Type parameter');
+        expect(applyRenderPolicy({ data: '', mimeType: 'text/plain; format="flowed"' }).contentType).toBe('text/plain; format="flowed"');
+    });
+
+    // Test 5: The render handler applies the policy
+    it('applies the policy in the render handler', async () => {
+        const { payload } = await compressToUrl(html);
+        const request = new Request(`https://pages.example.com/u/${encodeURIComponent(payload)}`);
+        const stripped = await createRenderHandler({ policy: 'no-script' })(request.clone());
+        expect(stripped.headers.get('Content-Type')).toBe('text/html; charset=utf-8');
+        expect(await stripped.text()).not.toContain('steal');
+
+        const framed = await createRenderHandler({ policy: 'sandbox-iframe', sandboxOrigin: 'https://sandbox.example.net' })(request);
+        expect(await framed.text()).toContain(`src="https://sandbox.example.net/u/${encodeURIComponent(payload)}"`);
+    });
+
+    // Test 6: Comments that end early
+    it('ends comments where browsers do', () => {
+        expect(stripScripts('<!--><script>alert(1)</script>-->')).toBe('<!-->-->');
+        expect(stripScripts('<!---><img src=x onerror=alert(1)>')).toBe('<!---><img src=x>');
+        expect(stripScripts('<!-- a --!><img src=x onerror=alert(2)> -->')).toBe('<!-- a --!><img src=x> -->');
+        expect(stripScripts('<!-- <script>kept as a comment</script> -->')).toBe('<!-- <script>kept as a comment</script> -->');
+    });
+
+    // Test 7: Raw text elements
+    it('does not read markup inside raw text elements', () => {
+        expect(stripScripts('<style><img title="</style><img src=x onerror=alert(3)>"></style>'))
+            .toBe('<style>&lt;img title="</style><img src=x>"></style>');
+        for (const name of ['textarea', 'title', 'xmp', 'noembed', 'noframes', 'iframe', 'noscript']) {
+            expect(stripScripts(`<${name}><p title="</${name}><img src=x onerror=alert(4)>"></${name}>`))
+                .toBe(`<${name}>&lt;p title="</${name}><img src=x>"></${name}>`);
+        }
+        expect(stripScripts('<plaintext></plaintext><img src=x onerror=alert(5)>')).toBe('<plaintext>&lt;/plaintext>&lt;img src=x onerror=alert(5)>');
+        // Inside SVG, style content is markup
+        expect(stripScripts('<svg><style><img src=x onerror=alert(6)></style></svg>')).toBe('<svg><style>&lt;img src=x onerror=alert(6)></style></svg>');
+        expect(stripScripts('<title>1 < 2</title><style>a > b { color: red }</style>')).toBe('<title>1 &lt; 2</title><style>a > b { color: red }</style>');
+    });
+
+    // Test 8: The type attribute of scripts
+    it('reads the type of a script from its own attribute', () => {
+        expect(stripScripts('<script x="a type=json" src="https://evil.example/x.js"></script>')).toBe('');
+        expect(stripScripts('<script type="text/javascript;json">alert(7)</script>')).toBe('');
+        expect(stripScripts('<script type=json>alert(8)</script>')).toBe('');
+        expect(stripScripts("<script data-x='>' type=\"application/json\">{\"a\":\"</b>\"}</script>"))
+            .toBe("<script data-x='>' type=\"application/json\">{\"a\":\"\\u003c/b>\"}</script>");
+        expect(stripScripts('<svg><script type="application/json"><img src=x onerror=alert(9)></script></svg>'))
+            .toBe('<svg><script type="application/json">\\u003cimg src=x onerror=alert(9)></script></svg>');
+        expect(stripScripts('<p x\'><img src=x onerror=alert(10)><p x=\'>\'>')).toBe('<p x\'><img src=x><p x=\'>\'>');
+    });
+
+    // Test 9: SVG animations
+    it('removes SVG animations that can set a script URL', () => {
+        const svg = (animation: string) => `<svg><a>${animation}<text y=20>x</text></a></svg>`;
+        expect(stripScripts(svg('<animate attributeName="href" values="javascript:alert(11)" />'))).toBe(svg(''));
+        expect(stripScripts(svg('<set attributeName="xlink:href" to="javascript:alert(12)"></set>'))).toBe(svg('</set>'));
+        expect(stripScripts(svg('<set attributeName="hr&#101;f" to="javascript:alert(13)" />'))).toBe(svg(''));
+        expect(stripScripts(svg('<animate attributeName="onclick" values="alert(14)" />'))).toBe(svg(''));
+        expect(stripScripts(svg('<animate attributeName="opacity" values="0;1" dur="1s" />'))).toBe(svg('<animate attributeName="opacity" values="0;1" dur="1s" />'));
+    });
+});
@@ -0,0 +1,226 @@
+// Rendering policies for decoded content, which is attacker-controlled HTML served
+// from the renderer's origin. Every policy keeps the <title>, <meta> and JSON-LD
+// that social media scrapers read, since scrapers do not run scripts or frames.
+
+import { isTextMimeType } from './core';
+import { decodeEntities } from './entities';
+import { CorruptPayloadError } from './errors';
+import { HTTP_TOKEN } from './metadata';
+import { closingTagEnd, declarationEnd, rawTextEnd, readTag, type Tag } from './tokenizer';
+import type { DecompressResult } from './types';
+
+type RenderPolicy = 'raw' | 'no-script' | 'csp' | 'sandbox-iframe';
+
+interface RenderPolicyOptions {
+  // Iframe source for 'sandbox-iframe', on another origin that serves the same
+  // payload. Without it the content goes into srcdoc, where the sandbox alone
+  // gives it an opaque origin.
+  sandboxSrc?: string;
+}
+
+interface RenderedContent {
+  body: string | Uint8Array;
+  contentType: string;
+  headers: Record<string, string>;
+}
+
+const RENDER_POLICIES: RenderPolicy[] = ['raw', 'no-script', 'csp', 'sandbox-iframe'];
+
+// type/subtype, then parameters whose values are tokens or quoted strings of
+// printable ASCII, as in RFC 7231
+const MEDIA_TYPE = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+\/[!#$%&'*+.^_`|~0-9A-Za-z-]+(?:[ \t]*;[ \t]*[!#$%&'*+.^_`|~0-9A-Za-z-]+=(?:[!#$%&'*+.^_`|~0-9A-Za-z-]+|"(?:[\t !#-\[\]-~]|\\[\t -~])*"))*$/;
+
+// No scripts, plugins, forms or frames, and a unique origin through the sandbox
+// directive. Images, styles, fonts and media load from anywhere.
+const STRICT_CSP = [
+  "default-src 'none'",
+  "img-src * data: blob:",
+  "style-src * 'unsafe-inline'",
+  "font-src * data:",
+  "media-src * data: blob:",
+  "base-uri 'none'",
+  "form-action 'none'",
+  "frame-ancestors 'none'",
+  'sandbox allow-popups allow-popups-to-escape-sandbox allow-top-navigation-by-user-activation',
+].join('; ');
+
+// Scripts run inside the frame, but without access to the renderer's origin
+const IFRAME_SANDBOX = 'allow-scripts allow-forms allow-popups allow-popups-to-escape-sandbox allow-modals';
+
+// Elements that run code or embed documents that can
+const SCRIPT_ELEMENTS = new Set(['script', 'object', 'embed', 'applet']);
+const URL_ATTRIBUTES = new Set(['href', 'src', 'action', 'formaction', 'xlink:href', 'data', 'poster', 'background']);
+// Elements whose content the tokenizer reads as text up to their closing tag.
+// noscript is one of them while scripts are enabled, as they are under 'no-script'.
+const RAW_TEXT_ELEMENTS = new Set(['style', 'textarea', 'title', 'xmp', 'noembed', 'noframes', 'iframe', 'noscript', 'plaintext']);
+// SVG elements that set an attribute of another element
+const ANIMATION_ELEMENTS = new Set(['animate', 'animatecolor', 'animatemotion', 'animatetransform', 'set']);
+
+function getAttribute(tag: Tag, name: string): string | undefined {
+  // Browsers keep the first of repeated attributes
+  return tag.attributes.find(attribute => attribute.name === name)?.value;
+}
+
+// Browsers ignore whitespace and control characters inside the scheme
+function isScriptUrl(value: string): boolean {
+  const url = decodeEntities(value, true).replace(/[\u0000- ]/g, '').toLowerCase();
+  return url.startsWith('javascript:') || url.startsWith('vbscript:') || /^data:(?:text\/html|image\/svg\+xml|application\/xhtml)/.test(url);
+}
+
+// JSON in script elements is data, not code, and JSON-LD is read by scrapers.
+// Only a plain JSON MIME type counts: text/javascript;json runs.
+function isDataScript(tag: Tag): boolean {
+  const type = getAttribute(tag, 'type');
+  return type !== undefined && /^[a-z0-9.+-]+\/(?:[a-z0-9.+-]+\+)?json$/.test(decodeEntities(type, true).trim().toLowerCase());
+}
+
+// An SVG animation of href, or of any attribute that takes a URL or a handler,
+// can set it to a script URL through values, from, to or by
+function isUnsafeAnimation(tag: Tag): boolean {
+  const target = decodeEntities(getAttribute(tag, 'attributename') ?? '', true).trim().toLowerCase().replace(/^xlink:/, '');
+  if (!target) return false;
+  return !/^[a-z-]+$/.test(target) || target.startsWith('on') || URL_ATTRIBUTES.has(target);
+}
+
+function sanitizeAttributes(html: string, tag: Tag): string {
+  let result = '';
+  for (const { name, value, start, end } of tag.attributes) {
+    if (name.startsWith('on') || name === 'srcdoc') continue;
+    if (URL_ATTRIBUTES.has(name) && isScriptUrl(value)) continue;
+    result += ` ${html.slice(start, end)}`;
+  }
+  return result;
+}
+
+function startTag(html: string, tag: Tag): string {
+  return `<${tag.name}${sanitizeAttributes(html, tag)}${tag.selfClosing ? ' />' : '>'}`;
+}
+
+// Removes script, object, embed and applet elements, event handler attributes,
+// srcdoc, script URLs and SVG animations that could set one. JSON script
+// blocks, JSON-LD included, stay. Tags are read as the HTML tokenizer reads
+// them, so what is removed is what a browser would run.
+function stripScripts(html: string): string {
+  let result = '';
+  let i = 0;
+  while (i < html.length) {
+    const next = html.indexOf('<', i);
+    if (next === -1) {
+      result += html.slice(i);
+      break;
+    }
+    result += html.slice(i, next);
+    i = next;
+
+    const declaration = declarationEnd(html, i);
+    if (declaration !== undefined) {
+      result += html.slice(i, declaration);
+      i = declaration;
+      continue;
+    }
+    const tag = readTag(html, i);
+    if (!tag) {
+      result += '&lt;';
+      i++;
+      continue;
+    }
+    i = tag.end;
+    if (tag.closing) {
+      result += `</${tag.name}>`;
+      continue;
+    }
+
+    if (SCRIPT_ELEMENTS.has(tag.name)) {
+      // embed has no content or closing tag
+      if (tag.name === 'embed') continue;
+      const contentEnd = rawTextEnd(html, tag.name, i);
+      if (tag.name === 'script' && isDataScript(tag)) {
+        // Inside SVG or MathML, script content is markup, so no '<' is kept.
+        // JSON spells it \u003c in strings and allows it nowhere else.
+        result += `${startTag(html, tag)}${html.slice(i, contentEnd).replace(/</g, '\\u003c')}</script>`;
+      }
+      i = closingTagEnd(html, contentEnd);
+      continue;
+    }
+    if (ANIMATION_ELEMENTS.has(tag.name) && isUnsafeAnimation(tag)) continue;
+
+    result += startTag(html, tag);
+    if (RAW_TEXT_ELEMENTS.has(tag.name)) {
+      // The content is text in HTML but markup inside SVG or MathML, so it keeps
+      // no '<' that could open a tag either way
+      const contentEnd = rawTextEnd(html, tag.name, i);
+      result += html.slice(i, contentEnd).replace(/</g, '&lt;');
+      i = contentEnd;
+    }
+  }
+  return result;
+}
+
+// The part of a document that scrapers read: title, meta tags other than
+// http-equiv, links other than stylesheets and preloads, and JSON-LD. It is
+// copied to the top-level document, so it still goes through stripScripts.
+function headMetadata(html: string): string {
+  const headEnd = html.search(/<\/head\s*>|<body[\s>]/i);
+  const head = headEnd === -1 ? html : html.slice(0, headEnd);
+  const tag = (name: string) => new RegExp(`<${name}\\b(?:"[^"]*"|'[^']*'|[^'">])*>`, 'gi');
+  const elements: string[] = [];
+  const title = /<title\b[^>]*>[\s\S]*?<\/title\s*>/i.exec(head);
+  if (title) elements.push(title[0]);
+  for (const [meta] of head.matchAll(tag('meta'))) {
+    if (!/\shttp-equiv\s*=/i.test(meta) && !/\scharset\s*=/i.test(meta)) elements.push(meta);
+  }
+  for (const [link] of head.matchAll(tag('link'))) {
+    if (!/\srel\s*=\s*["']?[^"'>]*(?:stylesheet|preload|modulepreload|import)/i.test(link)) elements.push(link);
+  }
+  for (const [script] of head.matchAll(/<script\b[^>]*>[\s\S]*?<\/script\s*>/gi)) {
+    if (/\stype\s*=\s*["']?application\/ld\+json/i.test(script)) elements.push(script);
+  }
+  return elements.join('\n');
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+}
+
+function sandboxDocument(html: string, sandboxSrc?: string): string {
+  const source = sandboxSrc ? `src="${escapeAttribute(sandboxSrc)}"` : `srcdoc="${escapeAttribute(html)}"`;
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+${stripScripts(headMetadata(html))}
+<style>html,body,iframe{margin:0;padding:0;border:0;width:100%;height:100%;display:block}</style>
+</head>
+<body><iframe sandbox="${IFRAME_SANDBOX}" ${source}></iframe></body>
+</html>`;
+}
+
+// Turns decompressed content into a response body and headers under a policy.
+// Only HTML is rewritten. Other types, SVG included, get the strict CSP under
+// every policy but 'raw'.
+function applyRenderPolicy(result: DecompressResult, policy: RenderPolicy = 'raw', options: RenderPolicyOptions = {}): RenderedContent {
+  if (!RENDER_POLICIES.includes(policy)) {
+    throw new Error('Invalid policy: use "raw", "no-script", "csp" or "sandbox-iframe"');
+  }
+  const { mimeType, metadata } = result;
+  const charset = metadata?.charset ?? 'utf-8';
+  // Both come from the payload and go into a header
+  if (!MEDIA_TYPE.test(mimeType)) throw new CorruptPayloadError(`MIME type ${JSON.stringify(mimeType)} is not a valid Content-Type`);
+  if (!HTTP_TOKEN.test(charset)) throw new CorruptPayloadError(`Charset ${JSON.stringify(charset)} is not a valid Content-Type parameter`);
+  const isHtml = mimeType.split(';')[0].trim() === 'text/html';
+  const textType = mimeType.includes(';') || !isTextMimeType(mimeType) ? mimeType : `${mimeType}; charset=${charset}`;
+
+  if (policy === 'raw') return { body: result.data, contentType: textType, headers: {} };
+  if (!isHtml || policy === 'csp') {
+    return { body: result.data, contentType: textType, headers: { 'Content-Security-Policy': STRICT_CSP } };
+  }
+  // Rewritten HTML is a JS string again, which goes out as UTF-8
+  const html = typeof result.data === 'string' ? result.data : new TextDecoder(charset).decode(result.data);
+  if (policy === 'no-script') return { body: stripScripts(html), contentType: 'text/html; charset=utf-8', headers: {} };
+  // A srcdoc frame inherits the CSP of its parent, so only a separate origin allows one here
+  const headers: Record<string, string> = options.sandboxSrc ? { 'Content-Security-Policy': "script-src 'none'; object-src 'none'; base-uri 'none'" } : {};
+  return { body: sandboxDocument(html, options.sandboxSrc), contentType: 'text/html; charset=utf-8', headers };
+}
+
+export { applyRenderPolicy, stripScripts, RenderedContent, RenderPolicy, RenderPolicyOptions };
@@ -0,0 +1,91 @@
+import { packContent } from './core';
+import { FLAG_METADATA } from './header';
+import { compressToUrl, createRenderHandler } from './index';
+
+describe('render handler', () => {
+    const html = '<!DOCTYPE html><html><head><title>Rendered</title></head><body><p>Hi</p></body></html>';
+    const handler = createRenderHandler({ editorUrl: '/?edit=1' });
+
+    // Reads the ?error= message the way the example editor does
+    function editorError(response: Response): string | null {
+        return new URL(response.headers.get('Location')!).searchParams.get('error');
+    }
+
+    // Test 1: Query payloads
+    it('serves the payload from the query with its MIME type', async () => {
+        const { payload } = await compressToUrl(html);
+        const url = new URL('https://pages.example.com/');
+        url.searchParams.set('u', payload);
+        const response = await handler(new Request(url));
+        expect(response.status).toBe(200);
+        expect(response.headers.get('Content-Type')).toBe('text/html; charset=utf-8');
+        expect(response.headers.get('Cache-Control')).toBe('public, max-age=31536000, immutable');
+        expect(response.headers.get('X-Content-Type-Options')).toBe('nosniff');
+        expect(await response.text()).toBe(html);
+    });
+
+    // Test 2: Path payloads and binary content
+    it('serves binary payloads from the path', async () => {
+        const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0, 1, 2, 3]);
+        const { payload } = await compressToUrl(png, { inputType: 'binary', mimeType: 'image/png' });
+        const response = await handler(new Request(`https://pages.example.com/u/${encodeURIComponent(payload)}`));
+        expect(response.headers.get('Content-Type')).toBe('image/png');
+        expect(new Uint8Array(await response.arrayBuffer())).toEqual(png);
+    });
+
+    // Test 3: Failures redirect to the editor
+    it('redirects to the editor with the error message', async () => {
+        const response = await handler(new Request('https://pages.example.com/?u=1%25%25%25'));
+        expect(response.status).toBe(302);
+        expect(response.headers.get('Cache-Control')).toBe('no-store');
+        expect(new URL(response.headers.get('Location')!).pathname).toBe('/');
+        expect(new URL(response.headers.get('Location')!).searchParams.get('edit')).toBe('1');
+        expect(editorError(response)).toBe('Invalid Base85 char "%" at position 1');
+
+        const missing = await handler(new Request('https://pages.example.com/other'));
+        expect(missing.status).toBe(302);
+        expect(editorError(missing)).toBeNull();
+    });
+
+    // Test 4: Limits and expiry
+    it('applies decompression limits and expiry', async () => {
+        const { payload } = await compressToUrl('x'.repeat(100000), { mimeType: 'text/plain', maxSize: Infinity });
+        const limited = createRenderHandler({ decompressOptions: { maxOutputBytes: 1000 } });
+        const response = await limited(new Request(`https://pages.example.com/u/${encodeURIComponent(payload)}`));
+        expect(editorError(response)).toBe('Decompressed output exceeds maxOutputBytes (1000 bytes)');
+
+        const expiring = await compressToUrl(html, { metadata: { expires: Date.now() + 60_000, charset: 'iso-8859-1' } });
+        const fresh = await handler(new Request(`https://pages.example.com/u/${encodeURIComponent(expiring.payload)}`));
+        expect(fresh.headers.get('Cache-Control')).toMatch(/^public, max-age=(59|60)$/);
+        expect(fresh.headers.get('Content-Type')).toBe('text/html; charset=iso-8859-1');
+        const expired = await compressToUrl(html, { metadata: { expires: 0 } });
+        expect(editorError(await handler(new Request(`https://pages.example.com/u/${encodeURIComponent(expired.payload)}`)))).toBe('Payload expired at 1970-01-01T00:00:00.000Z');
+    });
+
+    // Test 5: Methods
+    it('answers HEAD without a body and rejects other methods', async () => {
+        const { payload } = await compressToUrl(html);
+        const head = await handler(new Request(`https://pages.example.com/u/${encodeURIComponent(payload)}`, { method: 'HEAD' }));
+        expect(head.status).toBe(200);
+        expect(await head.text()).toBe('');
+        const post = await handler(new Request('https://pages.example.com/', { method: 'POST' }));
+        expect(post.status).toBe(405);
+        expect(post.headers.get('Allow')).toBe('GET, HEAD');
+    });
+
+    // Test 6: Values that cannot go into Content-Type redirect too
+    it.each([
+        ['a MIME type with a line break', 'text/html\r\nSet-Cookie: a=b', undefined],
+        ['a charset with a line break', 'text/html', 'utf-8\r\nX: y'],
+        ['a charset outside Latin-1', 'text/html', '€'],
+    ])('redirects to the editor for %s', async (_, mimeType, charset) => {
+        // compressToUrl refuses such charsets, so the metadata block is written by hand
+        const value = new TextEncoder().encode(charset ?? '');
+        const block = charset === undefined ? [] : [2 + value.length, 2, value.length, ...value];
+        const content = new Uint8Array([...block, ...new TextEncoder().encode(`${mimeType}:`), ...new TextEncoder().encode(html)]);
+        const { payload } = await packContent(content, { flags: charset === undefined ? 0 : FLAG_METADATA });
+        const response = await handler(new Request(`https://pages.example.com/?u=${encodeURIComponent(payload)}`));
+        expect(response.status).toBe(302);
+        expect(editorError(response)).not.toBeNull();
+    });
+});
@@ -0,0 +1,87 @@
+/// <reference lib="dom" />
+
+import { applyRenderPolicy, type RenderPolicy } from './policy';
+import type { DecompressOptions, DecompressResult } from './types';
+
+interface RenderHandlerOptions {
+  // Where failures are redirected, with the message in ?error=. Relative URLs
+  // resolve against the request.
+  editorUrl?: string | URL;
+  // Query parameter holding the payload, also used for the /u/<payload> path form
+  param?: string;
+  pathPrefix?: string;
+  // Payloads never change behind a URL, so responses cache for a year by default
+  cacheControl?: string;
+  // How HTML is contained, see applyRenderPolicy. 'raw' by default.
+  policy?: RenderPolicy;
+  // Origin that serves the same payloads for the 'sandbox-iframe' policy, under
+  // a policy other than 'sandbox-iframe'
+  sandboxOrigin?: string | URL;
+  // Limits and verify key for decompression. Links come from anyone, so output
+  // is capped at 10 MB unless set otherwise.
+  decompressOptions?: Omit<DecompressOptions, 'outputType'>;
+}
+
+type RenderHandler = (request: Request) => Promise<Response>;
+
+type Decompress = (payload: string, options: DecompressOptions) => Promise<DecompressResult>;
+
+const DEFAULT_MAX_OUTPUT_BYTES = 10 * 1024 * 1024;
+
+// The payload is taken from the query first, then from the path. Path payloads
+// must be percent-encoded, as '?', '#' and '/' are part of some alphabets.
+function payloadFromRequest(url: URL, param: string, pathPrefix: string): string | undefined {
+  const fromQuery = url.searchParams.get(param);
+  if (fromQuery) return fromQuery;
+  if (url.pathname.startsWith(pathPrefix) && url.pathname.length > pathPrefix.length) {
+    return decodeURIComponent(url.pathname.slice(pathPrefix.length));
+  }
+  return undefined;
+}
+
+// Expiring payloads must not outlive their expiry in a cache
+function cacheHeaders(result: DecompressResult, cacheControl: string): Record<string, string> {
+  const expires = result.metadata?.expires;
+  if (!expires) return { 'Cache-Control': cacheControl };
+  const seconds = Math.max(0, Math.floor((expires.getTime() - Date.now()) / 1000));
+  return { 'Cache-Control': `public, max-age=${seconds}`, Expires: expires.toUTCString() };
+}
+
+function errorRedirect(request: Request, editorUrl: string | URL, message?: string): Response {
+  const location = new URL(editorUrl, request.url);
+  if (message) location.searchParams.set('error', message);
+  return new Response(null, { status: 302, headers: { Location: location.href, 'Cache-Control': 'no-store' } });
+}
+
+// The handler behind createRenderHandler, with decompressFromUrl passed in
+export function renderHandlerWith(options: RenderHandlerOptions, decompress: Decompress): RenderHandler {
+  const { editorUrl = '/', param = 'u', pathPrefix = `/${param}/`, cacheControl = 'public, max-age=31536000, immutable', policy = 'raw', sandboxOrigin } = options;
+  const decompressOptions = { maxOutputBytes: DEFAULT_MAX_OUTPUT_BYTES, ...options.decompressOptions };
+
+  return async request => {
+    if (request.method !== 'GET' && request.method !== 'HEAD') {
+      return new Response('Method Not Allowed', { status: 405, headers: { Allow: 'GET, HEAD' } });
+    }
+    const url = new URL(request.url);
+    // Everything taken from the payload, headers included, can fail, and every
+    // failure goes back to the editor
+    try {
+      const payload = payloadFromRequest(url, param, pathPrefix);
+      if (!payload) return errorRedirect(request, editorUrl);
+      const result = await decompress(payload, { ...decompressOptions, outputType: 'binary' });
+      const sandboxSrc = sandboxOrigin ? new URL(pathPrefix + encodeURIComponent(payload), sandboxOrigin).href : undefined;
+      const rendered = applyRenderPolicy(result, policy, { sandboxSrc });
+      const headers = {
+        'Content-Type': rendered.contentType,
+        'X-Content-Type-Options': 'nosniff',
+        ...rendered.headers,
+        ...cacheHeaders(result, cacheControl),
+      };
+      return new Response(request.method === 'HEAD' ? null : rendered.body, { status: 200, headers });
+    } catch (error) {
+      return errorRedirect(request, editorUrl, error instanceof Error ? error.message : String(error));
+    }
+  };
+}
+
+export { RenderHandler, RenderHandlerOptions };
@@ -0,0 +1,50 @@
+import { compressToUrl, decompressFromUrl } from './index';
+import { joinChunks, splitPayload } from './shard';
+
+describe('sharding', () => {
+    // Random-looking text does not compress, so it needs several chunks
+    const input = Array.from({ length: 3000 }, (_, i) => String.fromCharCode(33 + ((i * 7919) ^ (i >> 3)) % 90)).join('');
+
+    // Test 1: Round trip in any order
+    it('splits oversized payloads and reassembles them in any order', async () => {
+        const result = await compressToUrl(input, { maxSize: 1000, shard: true, mimeType: 'text/plain' });
+        expect(result.chunks!.length).toBeGreaterThan(2);
+        for (const chunk of result.chunks!) {
+            expect(chunk.length).toBeLessThanOrEqual(1000);
+        }
+        const decompressed = await decompressFromUrl([...result.chunks!].reverse());
+        expect(decompressed.data).toBe(input);
+    });
+
+    // Test 2: Small payloads stay whole
+    it('returns a single chunk when the payload fits', async () => {
+        const result = await compressToUrl('<p>small</p>', { shard: true });
+        expect(result.chunks).toEqual([result.payload]);
+        expect(joinChunks(result.chunks!)).toBe(result.payload);
+    });
+
+    // Test 3: Missing and foreign chunks
+    it('reports missing and mismatched chunks', async () => {
+        const { payload } = await compressToUrl(input, { maxSize: 10000, mimeType: 'text/plain' });
+        const chunks = splitPayload(payload, 900);
+        expect(() => joinChunks(chunks.filter((_, index) => index !== 1))).toThrow(`Missing chunk 2 of ${chunks.length}`);
+
+        const other = splitPayload((await compressToUrl(input.slice(1), { maxSize: 10000, mimeType: 'text/plain' })).payload, 900);
+        expect(() => joinChunks([chunks[0], other[1]])).toThrow('Chunks belong to different payloads');
+    });
+
+    // Test 4: Corrupt chunk
+    it('detects corrupt chunks with the checksum', async () => {
+        const { payload } = await compressToUrl(input, { maxSize: 10000, mimeType: 'text/plain' });
+        const chunks = splitPayload(payload, 900);
+        const last = chunks[1];
+        chunks[1] = last.slice(0, -1) + (last.endsWith('0') ? '1' : '0');
+        expect(() => joinChunks(chunks)).toThrow('Chunk checksum mismatch; a chunk is corrupt');
+    });
+
+    // Test 5: A single chunk is not a payload
+    it('refuses to decode a lone chunk', async () => {
+        const { chunks } = await compressToUrl(input, { maxSize: 1000, shard: true, mimeType: 'text/plain' });
+        await expect(decompressFromUrl(chunks![0])).rejects.toThrow('Payload is one chunk of a sharded payload; pass all chunks');
+    });
+});
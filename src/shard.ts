@@ -0,0 +1,105 @@
+import { crc32 } from './checksum';
+import { type AlphabetProfile, base85Decode, base85Encode } from './encoding';
+import { CorruptPayloadError, IncompletePayloadError } from './errors';
+import { alphabetFromMarker, CHUNK_MARKER } from './header';
+
+// Chunk layout: the chunk marker, the alphabet marker of the payload, then 6 bytes
+// (chunk index, chunk count and the CRC-32 of the whole payload) block-encoded in
+// that alphabet, then a slice of the payload text.
+const CHUNK_HEADER_BYTES = 6;
+const MAX_CHUNKS = 255;
+
+function chunkOverhead(alphabet: AlphabetProfile): number {
+  return CHUNK_MARKER.length + 1 + base85Encode(new Uint8Array(CHUNK_HEADER_BYTES), alphabet).length;
+}
+
+interface ChunkInfo {
+  index: number;
+  total: number;
+  checksum: number;
+  text: string;
+}
+
+function payloadChecksum(payload: string): number {
+  return crc32(new TextEncoder().encode(payload));
+}
+
+function buildChunks(payload: string, sliceSize: number, alphabet: AlphabetProfile): string[] {
+  const total = Math.ceil(payload.length / sliceSize);
+  if (total > MAX_CHUNKS) {
+    throw new Error(`Payload needs ${total} chunks; at most ${MAX_CHUNKS} are supported`);
+  }
+  const checksum = payloadChecksum(payload);
+  const chunks: string[] = [];
+  for (let index = 0; index < total; index++) {
+    const header = new Uint8Array([index, total, checksum >>> 24, (checksum >>> 16) & 0xff, (checksum >>> 8) & 0xff, checksum & 0xff]);
+    chunks.push(CHUNK_MARKER + payload[0] + base85Encode(header, alphabet) + payload.slice(index * sliceSize, (index + 1) * sliceSize));
+  }
+  return chunks;
+}
+
+// `measure` tells how long a chunk ends up once placed where it is used, such as
+// inside an escaped share URL. Chunks shrink until every one of them fits.
+function splitPayload(payload: string, maxSize: number, measure: (text: string) => number = text => text.length): string[] {
+  if (measure(payload) <= maxSize) return [payload];
+  const alphabet = alphabetFromMarker(payload[0]);
+  if (!alphabet) throw new Error('Only versioned payloads can be sharded');
+  const overhead = chunkOverhead(alphabet);
+  let sliceSize = maxSize - measure('') - overhead;
+  while (sliceSize >= 1) {
+    const chunks = buildChunks(payload, sliceSize, alphabet);
+    const longest = Math.max(...chunks.map(measure));
+    if (longest <= maxSize) return chunks;
+    sliceSize -= longest - maxSize;
+  }
+  throw new Error(`maxSize (${maxSize} chars) is too small to shard; chunks need ${overhead} chars of header`);
+}
+
+function readChunk(chunk: string): ChunkInfo {
+  const alphabet = alphabetFromMarker(chunk.charAt(CHUNK_MARKER.length));
+  const overhead = alphabet ? chunkOverhead(alphabet) : 0;
+  if (!chunk.startsWith(CHUNK_MARKER) || !alphabet || chunk.length <= overhead) {
+    throw new CorruptPayloadError('Not a chunk of a sharded payload');
+  }
+  const header = base85Decode(chunk.slice(CHUNK_MARKER.length + 1, overhead), alphabet);
+  if (header.length !== CHUNK_HEADER_BYTES) throw new CorruptPayloadError('Chunk header is corrupt');
+  const [index, total] = header;
+  if (!total || index >= total) throw new CorruptPayloadError('Chunk header is corrupt');
+  const checksum = ((header[2] << 24) | (header[3] << 16) | (header[4] << 8) | header[5]) >>> 0;
+  return { index, total, checksum, text: chunk.slice(overhead) };
+}
+
+// Reassembles the chunks produced by splitPayload, given in any order, back into
+// the original payload.
+function joinChunks(chunks: string[]): string {
+  if (chunks.length === 1 && !chunks[0].startsWith(CHUNK_MARKER)) return chunks[0];
+  if (!chunks.length) throw new IncompletePayloadError('No chunks given');
+
+  const infos = chunks.map(readChunk);
+  const { total, checksum } = infos[0];
+  if (infos.some(info => info.total !== total || info.checksum !== checksum)) {
+    throw new CorruptPayloadError('Chunks belong to different payloads');
+  }
+  const slices: string[] = new Array(total);
+  for (const info of infos) {
+    if (slices[info.index] !== undefined && slices[info.index] !== info.text) {
+      throw new CorruptPayloadError(`Conflicting copies of chunk ${info.index + 1} of ${total}`);
+    }
+    slices[info.index] = info.text;
+  }
+  const missing: number[] = [];
+  for (let index = 0; index < total; index++) {
+    if (slices[index] === undefined) missing.push(index + 1);
+  }
+  if (missing.length) {
+    throw new IncompletePayloadError(`Missing chunk${missing.length > 1 ? 's' : ''} ${missing.join(', ')} of ${total}`, missing);
+  }
+
+  const payload = slices.join('');
+  if (payloadChecksum(payload) !== checksum) {
+    throw new CorruptPayloadError('Chunk checksum mismatch; a chunk is corrupt');
+  }
+  return payload;
+}
+
+export { splitPayload, joinChunks };
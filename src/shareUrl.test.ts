@@ -0,0 +1,73 @@
+import { compressToUrl, CorruptPayloadError, decompressFromUrl } from './index';
+import { buildShareUrl, parseShareUrl } from './shareUrl';
+
+describe('share URLs', () => {
+    const payload = '1aZ!()*+-;<=>?@^_`{|}~\',:/"[]';
+
+    // Test 1: Query placement
+    it('builds and parses query URLs', () => {
+        const url = buildShareUrl('https://onthefly.dobuki.net/?edit=1', payload);
+        expect(url).toBe('https://onthefly.dobuki.net/?edit=1&u=1aZ!()*%2B-;%3C=%3E?@^_%60{|}~%27,:/%22[]');
+        expect(parseShareUrl(url)).toEqual({ payload, placement: 'query' });
+        expect(new URL(url).searchParams.get('u')).toBe(payload);
+    });
+
+    // Test 2: Fragment placement
+    it('builds and parses fragment URLs', () => {
+        const url = buildShareUrl('https://onthefly.dobuki.net/', payload, { placement: 'fragment', param: 'p' });
+        expect(url).toBe('https://onthefly.dobuki.net/#p=1aZ!()*+-;%3C=%3E?@^_%60{|}~\',:/%22[]');
+        expect(parseShareUrl(url, { param: 'p' })).toEqual({ payload, placement: 'fragment' });
+        expect(parseShareUrl(url)).toBeNull();
+    });
+
+    // Test 3: Escaped length is shorter than URLSearchParams
+    it('escapes fewer characters than URLSearchParams', () => {
+        const naive = new URL('https://example.com/');
+        naive.searchParams.set('u', payload);
+        expect(buildShareUrl('https://example.com/', payload).length).toBeLessThan(naive.href.length);
+    });
+
+    // Test 4: Existing parameter is replaced
+    it('replaces an existing payload parameter', () => {
+        const url = buildShareUrl('https://example.com/?u=old&edit=1', 'new');
+        expect(url).toBe('https://example.com/?edit=1&u=new');
+    });
+
+    // Test 5: maxSize applies to the whole URL
+    it('enforces maxSize against the share URL', async () => {
+        const input = '<p>Hello share URL</p>';
+        const { payload: bare, size } = await compressToUrl(input);
+        const shareUrl = { base: 'https://onthefly.dobuki.net/' };
+        const result = await compressToUrl(input, { shareUrl });
+        expect(result.url).toBe(buildShareUrl(shareUrl.base, bare));
+        await expect(compressToUrl(input, { shareUrl, maxSize: size + 5 })).rejects.toThrow(
+            /Share URL \(\d+ chars\) exceeds max URL size/
+        );
+        const decompressed = await decompressFromUrl(parseShareUrl(result.url!)!.payload);
+        expect(decompressed.data).toBe(input);
+    });
+
+    // Test 6: Sharded URLs fit the limit
+    it('sizes chunks so that every chunk URL fits', async () => {
+        const input = Array.from({ length: 3000 }, (_, i) => String.fromCharCode(33 + ((i * 7919) ^ (i >> 3)) % 90)).join('');
+        const result = await compressToUrl(input, {
+            mimeType: 'text/plain',
+            maxSize: 1000,
+            shard: true,
+            shareUrl: { base: 'https://onthefly.dobuki.net/', placement: 'fragment' },
+        });
+        for (const url of result.chunkUrls!) {
+            expect(url.length).toBeLessThanOrEqual(1000);
+        }
+        const chunks = result.chunkUrls!.map(url => parseShareUrl(url)!.payload);
+        expect((await decompressFromUrl(chunks)).data).toBe(input);
+    });
+
+    // Test 7: Malformed escapes in the fragment
+    it('throws CorruptPayloadError for a malformed escape in the payload or key', () => {
+        expect(() => parseShareUrl('https://example.com/#u=1ab%zz')).toThrow(CorruptPayloadError);
+        expect(() => parseShareUrl('https://example.com/?u=1ab#k=%E0%A4%A')).toThrow('Share URL fragment entry "k" has a malformed percent escape');
+        // Entries under other names are not read
+        expect(parseShareUrl('https://example.com/#x%=1&u=1ab')).toEqual({ payload: '1ab', placement: 'fragment' });
+    });
+});
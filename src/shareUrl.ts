@@ -0,0 +1,86 @@
+import { CorruptPayloadError } from './errors';
+
+type Placement = 'query' | 'fragment';
+
+interface ShareUrlOptions {
+  placement?: Placement;
+  param?: string;
+  // Encryption key, always written to the fragment so it never reaches the server
+  key?: string;
+  keyParam?: string;
+}
+
+interface ParsedShareUrl {
+  payload: string;
+  placement: Placement;
+  key?: string;
+}
+
+// Only the characters a URL parser would rewrite, or that would change how the
+// component splits, get percent-encoded. Everything else in the payload alphabet
+// is legal as is, which keeps the link as short as the payload allows. '+' reads
+// as a space through URLSearchParams, so it is escaped in the query.
+const ESCAPED_CHARS: Record<Placement, RegExp> = {
+  query: /["'<>`+%&#]/g,
+  fragment: /["<>`%&#]/g,
+};
+
+function escapeComponent(value: string, placement: Placement): string {
+  return value.replace(ESCAPED_CHARS[placement], char => `%${char.charCodeAt(0).toString(16).toUpperCase().padStart(2, '0')}`);
+}
+
+function buildShareUrl(base: string | URL, payload: string, options: ShareUrlOptions = {}): string {
+  const { placement = 'query', param = 'u', key, keyParam = 'k' } = options;
+  if (placement !== 'query' && placement !== 'fragment') {
+    throw new Error('Invalid placement: use "query" or "fragment"');
+  }
+  const url = new URL(base);
+  url.searchParams.delete(param);
+  const entry = `${encodeURIComponent(param)}=${escapeComponent(payload, placement)}`;
+  const keyEntry = key ? `${encodeURIComponent(keyParam)}=${escapeComponent(key, 'fragment')}` : '';
+  if (placement === 'query') {
+    url.search = url.search ? `${url.search}&${entry}` : entry;
+    if (keyEntry) url.hash = keyEntry;
+  } else {
+    url.hash = keyEntry ? `${entry}&${keyEntry}` : entry;
+  }
+  return url.href;
+}
+
+function decodeOrUndefined(text: string): string | undefined {
+  try {
+    return decodeURIComponent(text);
+  } catch {
+    return undefined;
+  }
+}
+
+// Fragment entries are decoded without URLSearchParams, so '+' stays a '+'. A
+// name with a broken escape cannot be the one asked for, but a broken value
+// means the link was damaged.
+function getFragmentEntry(hash: string, name: string): string | undefined {
+  for (const entry of hash.slice(1).split('&')) {
+    const separator = entry.indexOf('=');
+    if (separator !== -1 && decodeOrUndefined(entry.slice(0, separator)) === name) {
+      const value = decodeOrUndefined(entry.slice(separator + 1));
+      if (value === undefined) throw new CorruptPayloadError(`Share URL fragment entry "${name}" has a malformed percent escape`);
+      if (value) return value;
+    }
+  }
+  return undefined;
+}
+
+function parseShareUrl(url: string | URL, options: Pick<ShareUrlOptions, 'param' | 'keyParam'> = {}): ParsedShareUrl | null {
+  const { param = 'u', keyParam = 'k' } = options;
+  const parsed = new URL(url);
+
+  const fromQuery = parsed.searchParams.get(param);
+  const payload = fromQuery || getFragmentEntry(parsed.hash, param);
+  if (!payload) return null;
+  const result: ParsedShareUrl = { payload, placement: fromQuery ? 'query' : 'fragment' };
+  const key = getFragmentEntry(parsed.hash, keyParam);
+  if (key) result.key = key;
+  return result;
+}
+
+export { buildShareUrl, parseShareUrl, ParsedShareUrl, Placement, ShareUrlOptions };
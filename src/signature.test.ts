@@ -0,0 +1,64 @@
+import { compressBundle, compressToUrl, decompressBundle, decompressFromUrl, SignatureError } from './index';
+
+describe('signed payloads', () => {
+    const input = '<p>Signed content</p>';
+    const key = 'server-secret';
+
+    // Test 1: Signed round trip
+    it('verifies payloads signed with the same key', async () => {
+        const { payload } = await compressToUrl(input, { sign: key });
+        const result = await decompressFromUrl(payload, { verify: key });
+        expect(result.data).toBe(input);
+    });
+
+    // Test 2: Signature adds a fixed number of characters
+    it('adds 20 characters for the signature', async () => {
+        const unsigned = await compressToUrl(input, { codec: 'gzip' });
+        const signed = await compressToUrl(input, { codec: 'gzip', sign: key });
+        expect(signed.size - unsigned.size).toBe(20);
+    });
+
+    // Test 3: Signed payloads still decode without verification
+    it('decodes signed payloads when verify is not set', async () => {
+        const { payload } = await compressToUrl(input, { sign: key });
+        expect((await decompressFromUrl(payload)).data).toBe(input);
+    });
+
+    // Test 4: Unsigned payloads are rejected
+    it('rejects unsigned payloads when verify is set', async () => {
+        const { payload } = await compressToUrl(input);
+        const promise = decompressFromUrl(payload, { verify: key });
+        await expect(promise).rejects.toThrow(SignatureError);
+        await expect(decompressFromUrl(payload, { verify: key })).rejects.toThrow('Payload is not signed');
+    });
+
+    // Test 5: Wrong key is rejected
+    it('rejects payloads signed with another key', async () => {
+        const { payload } = await compressToUrl(input, { sign: key });
+        await expect(decompressFromUrl(payload, { verify: 'other-secret' })).rejects.toThrow('Payload signature is invalid');
+    });
+
+    // Test 6: Tampered payloads are rejected
+    it('rejects tampered payloads', async () => {
+        const { payload } = await compressToUrl(input, { sign: key, codec: 'gzip' });
+        const index = 10;
+        const tampered = payload.slice(0, index) + (payload[index] === 'a' ? 'b' : 'a') + payload.slice(index + 1);
+        await expect(decompressFromUrl(tampered, { verify: key })).rejects.toThrow(SignatureError);
+    });
+
+    // Test 7: Key bytes and CryptoKey
+    it('accepts raw key bytes and CryptoKey objects', async () => {
+        const raw = crypto.getRandomValues(new Uint8Array(32));
+        const cryptoKey = await crypto.subtle.importKey('raw', raw, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+        const { payload } = await compressToUrl(input, { sign: raw });
+        expect((await decompressFromUrl(payload, { verify: cryptoKey })).data).toBe(input);
+    });
+
+    // Test 8: Bundles
+    it('signs and verifies bundles', async () => {
+        const { payload } = await compressBundle({ 'index.html': input }, { sign: key });
+        const bundle = await decompressBundle(payload, { verify: key });
+        expect(bundle.get('index.html')?.data).toBe(input);
+        await expect(decompressBundle(payload, { verify: 'other-secret' })).rejects.toThrow(SignatureError);
+    });
+});
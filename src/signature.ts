@@ -0,0 +1,55 @@
+/// <reference lib="dom" />
+
+import { UnsupportedRuntimeError } from './errors';
+
+// HMAC key: a CryptoKey, a secret string or raw key bytes
+type SigningKey = CryptoKey | string | Uint8Array;
+
+// HMAC-SHA-256 truncated to 128 bits, which keeps forgery out of reach while
+// costing 20 URL characters instead of 40.
+export const SIGNATURE_BYTES = 16;
+
+// Node 18 has Web Crypto on the crypto module only. Like zlib, the module is
+// imported on first use under a variable specifier.
+const CRYPTO_MODULE = 'node:crypto';
+
+let webCrypto: Promise<Crypto | undefined> | undefined;
+
+export async function getWebCrypto(): Promise<Crypto> {
+  webCrypto ??= globalThis.crypto?.subtle || typeof process === 'undefined' || !process.versions?.node
+    ? Promise.resolve(globalThis.crypto)
+    : import(CRYPTO_MODULE).then(module => module.webcrypto, () => undefined);
+  const crypto = await webCrypto;
+  if (!crypto?.subtle) throw new UnsupportedRuntimeError('Web Crypto unavailable; signing and encryption require crypto.subtle');
+  return crypto;
+}
+
+export async function getSubtle(): Promise<SubtleCrypto> {
+  return (await getWebCrypto()).subtle;
+}
+
+async function importKey(key: SigningKey): Promise<CryptoKey> {
+  if (typeof key !== 'string' && !(key instanceof Uint8Array)) return key;
+  const raw = typeof key === 'string' ? new TextEncoder().encode(key) : key;
+  if (!raw.length) throw new Error('Signing key must not be empty');
+  return (await getSubtle()).importKey('raw', raw, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+}
+
+export async function signBytes(bytes: Uint8Array, key: SigningKey): Promise<Uint8Array> {
+  const cryptoKey = await importKey(key);
+  const signature = await (await getSubtle()).sign('HMAC', cryptoKey, bytes);
+  return new Uint8Array(signature, 0, SIGNATURE_BYTES);
+}
+
+export async function verifyBytes(bytes: Uint8Array, signature: Uint8Array, key: SigningKey): Promise<boolean> {
+  const expected = await signBytes(bytes, key);
+  if (signature.length !== expected.length) return false;
+  // Compare every byte so the time taken does not reveal where they differ
+  let difference = 0;
+  for (let i = 0; i < expected.length; i++) {
+    difference |= expected[i] ^ signature[i];
+  }
+  return difference === 0;
+}
+
+export { SigningKey };
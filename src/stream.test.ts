@@ -0,0 +1,119 @@
+import { compressBundle, compressToUrl, createCompressStream, createDecompressStream, DecompressionLimitError, decompressFromUrl } from './index';
+
+async function readText(readable: ReadableStream<string>): Promise<string> {
+    let text = '';
+    for await (const chunk of readable) text += chunk;
+    return text;
+}
+
+async function readBytes(readable: ReadableStream<Uint8Array>): Promise<Uint8Array> {
+    const chunks: number[] = [];
+    for await (const chunk of readable) chunks.push(...chunk);
+    return new Uint8Array(chunks);
+}
+
+function streamOf<T>(chunks: T[]): ReadableStream<T> {
+    return new ReadableStream({
+        start(controller) {
+            chunks.forEach(chunk => controller.enqueue(chunk));
+            controller.close();
+        },
+    });
+}
+
+// Splits text into pieces of the given size to exercise block boundaries
+function pieces(text: string, size: number): string[] {
+    const result: string[] = [];
+    for (let i = 0; i < text.length; i += size) result.push(text.slice(i, i + size));
+    return result;
+}
+
+describe('streaming API', () => {
+    const html = '<!DOCTYPE html><html><body><h1>Streaming</h1><p>Chunk by chunk.</p></body></html>';
+    const bytes = new TextEncoder().encode(html);
+
+    // Test 1: Stream output matches compressToUrl
+    it('produces the same payload as compressToUrl', async () => {
+        const text = await readText(streamOf([bytes.subarray(0, 7), bytes.subarray(7)]).pipeThrough(createCompressStream({ mimeType: 'text/html' })));
+        const { payload } = await compressToUrl(html, { codec: 'deflate-raw', dictionary: false });
+        expect(text).toBe(payload);
+    });
+
+    // Test 2: Decompress stream with uneven chunks
+    it.each([1, 3, 7, 1000])('decompresses payload text fed %i characters at a time', async size => {
+        const { payload } = await compressToUrl(html);
+        const stream = createDecompressStream();
+        const output = await readBytes(streamOf(pieces(payload, size)).pipeThrough(stream));
+        expect(new TextDecoder().decode(output)).toBe(html);
+        expect(await stream.mimeType).toBe('text/html');
+    });
+
+    // Test 3: Every codec and alphabet
+    it.each([
+        ['gzip', 'default'],
+        ['brotli', 'chat-safe'],
+        ['deflate-raw', 'qr-alphanumeric'],
+    ] as const)('round-trips %s in the %s alphabet', async (codec, alphabet) => {
+        const text = await readText(streamOf([bytes]).pipeThrough(createCompressStream({ codec, alphabet, mimeType: 'text/html' })));
+        expect((await decompressFromUrl(text)).data).toBe(html);
+        const output = await readBytes(streamOf(pieces(text, 5)).pipeThrough(createDecompressStream()));
+        expect(new TextDecoder().decode(output)).toBe(html);
+    });
+
+    // Test 4: Large binary input
+    it('streams large binary input', async () => {
+        const chunks = Array.from({ length: 64 }, (_, i) => new Uint8Array(16384).map((_, j) => (i * 7 + j * 13) % 251));
+        const text = await readText(streamOf(chunks).pipeThrough(createCompressStream()));
+        const stream = createDecompressStream();
+        const output = await readBytes(streamOf(pieces(text, 4096)).pipeThrough(stream));
+        expect(output.length).toBe(64 * 16384);
+        expect(output.subarray(16384 * 5, 16384 * 5 + 10)).toEqual(chunks[5].subarray(0, 10));
+        expect(await stream.mimeType).toBe('application/octet-stream');
+    });
+
+    // Test 5: Legacy, headerless, dictionary and signed payloads
+    it.each([
+        ['legacy', '3U5GG000000000G35D4QQA6HPSKCJJDHMB4J1D7J936SJIDNQ77J1D0303O43EQV3000000'],
+        ['headerless', '8?ne0000000nl;fmd2W}BaE]@o1l/K;5crHuc9"]Dt2aW-I}R]6!_iW'],
+    ])('decompresses %s payloads', async (_, payload) => {
+        const expected = (await decompressFromUrl(payload)).data;
+        const output = await readBytes(streamOf(pieces(payload, 2)).pipeThrough(createDecompressStream()));
+        expect(new TextDecoder().decode(output)).toBe(expected as string);
+    });
+
+    it.each([
+        ['dictionary', { codec: 'deflate-raw', dictionary: 1 }],
+        ['signed', { sign: 'secret' }],
+    ] as const)('decompresses %s payloads', async (_, options) => {
+        const { payload } = await compressToUrl(html, options);
+        const output = await readBytes(streamOf(pieces(payload, 6)).pipeThrough(createDecompressStream()));
+        expect(new TextDecoder().decode(output)).toBe(html);
+    });
+
+    // Test 6: Payloads that cannot be streamed
+    it('rejects encrypted payloads and bundles', async () => {
+        const encrypted = await compressToUrl(html, { encrypt: true });
+        const stream = createDecompressStream();
+        await expect(readBytes(streamOf([encrypted.payload]).pipeThrough(stream))).rejects.toThrow('Encrypted payloads cannot be streamed; use decompressFromUrl');
+        await expect(stream.mimeType).rejects.toThrow('Encrypted payloads cannot be streamed');
+
+        const bundle = await compressBundle({ 'index.html': html });
+        await expect(readBytes(streamOf([bundle.payload]).pipeThrough(createDecompressStream()))).rejects.toThrow('Payload is a bundle; use decompressBundle');
+    });
+
+    // Test 7: Invalid input
+    it('rejects invalid payloads', async () => {
+        await expect(readBytes(streamOf(['Zabc']).pipeThrough(createDecompressStream()))).rejects.toThrow('Unsupported payload version: Z');
+        await expect(readBytes(streamOf<string>([]).pipeThrough(createDecompressStream()))).rejects.toThrow('Payload header is missing');
+        // Split across chunks, the invalid character is still reported where it sits in the payload
+        await expect(readBytes(streamOf(['ab', 'c&def']).pipeThrough(createDecompressStream()))).rejects.toMatchObject({ code: 'INVALID_CHARACTER', position: 3 });
+        expect(() => createCompressStream({ codec: 'auto' as any })).toThrow('Invalid codec');
+    });
+
+    // Test 8: Output limit
+    it('stops at maxOutputBytes', async () => {
+        const text = await readText(streamOf([new Uint8Array(1024 * 1024)]).pipeThrough(createCompressStream()));
+        const stream = createDecompressStream({ maxOutputBytes: 4096 });
+        await expect(readBytes(streamOf([text]).pipeThrough(stream))).rejects.toThrow(DecompressionLimitError);
+    });
+});
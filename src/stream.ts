@@ -0,0 +1,426 @@
+/// <reference lib="dom" />
+
+import { asCorruptPayloadError, type ByteTransform, type Codec, CODEC_IDS, codecFromId, compressionStream, concatChunks, decompressionStream, limitStream, readAll, streamFrom } from './codecs';
+import { getDictionary } from './dictionary';
+import { type EncryptionKey, decryptBytes, encryptBytes } from './encryption';
+import { CorruptPayloadError, DecryptionError, IncompletePayloadError, MissingMimeTypeError, PayloadTypeError, SignatureError, UnsupportedPayloadError } from './errors';
+import { ALPHABETS, createBase85Decoder, createBase85Encoder, legacyBase32Decode, LEGACY_PREFIX } from './encoding';
+import { alphabetFromMarker, checkCharacters, CHUNK_MARKER, FLAG_BUNDLE, FLAG_CODEC_MASK, FLAG_DICTIONARY, FLAG_ENCRYPTED, FLAG_METADATA, FLAG_SIGNED, FLAG_TEMPLATE, HEADERLESS_CHAR, type PayloadHeader, readHeader, serializePayload, VERSION_MARKERS } from './header';
+import { checkExpiry, metadataEnd, type PayloadMetadata, readMetadata, serializeMetadata } from './metadata';
+import { SIGNATURE_BYTES, type SigningKey, signBytes, verifyBytes } from './signature';
+import type { CompressOptions, DecompressOptions } from './types';
+
+// Streams compress with one codec, since picking the shortest would mean
+// buffering every candidate. Signing, encryption and sharding stay with
+// compressToUrl, which runs its candidates through the same pipeline.
+interface CompressStreamOptions extends Pick<CompressOptions, 'mimeType' | 'alphabet' | 'metadata'> {
+  codec?: Codec;
+  dictionary?: number;
+}
+
+interface DecompressStream extends ReadableWritablePair<Uint8Array, string> {
+  // Resolves once the MIME type at the start of the content has been read
+  mimeType: Promise<string>;
+  // Resolves with the metadata block, or undefined for payloads without one
+  metadata: Promise<PayloadMetadata | undefined>;
+}
+
+// What the compression pipeline writes: the header, whose flags already name the
+// codec and dictionary, and the codec and dictionary bytes themselves
+interface PayloadStreamOptions {
+  header: Omit<PayloadHeader, 'format' | 'signature'>;
+  codec: Codec;
+  dictionary?: Uint8Array;
+  // Resolved key; generating a random one is up to the caller
+  encrypt?: EncryptionKey;
+  sign?: SigningKey;
+  sizeHint?: number;
+}
+
+interface ContentStreamOptions extends Pick<DecompressOptions, 'verify' | 'decrypt' | 'maxOutputBytes' | 'timeoutMs' | 'signal'> {
+  // Sees the header before any content is read, and may refuse the payload by throwing
+  onHeader?: (header: PayloadHeader) => void;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function concatBytes(first: Uint8Array, second: Uint8Array): Uint8Array {
+  if (!first.length) return second;
+  const bytes = new Uint8Array(first.length + second.length);
+  bytes.set(first);
+  bytes.set(second, first.length);
+  return bytes;
+}
+
+function prepend<T>(value: T): TransformStream<T, T> {
+  return new TransformStream({
+    start(controller) {
+      controller.enqueue(value);
+    },
+  });
+}
+
+// Writes the header in front of the compressed body. Encryption and signing need
+// the whole body, so they hold it back until the end.
+function headerStream(options: PayloadStreamOptions): TransformStream<Uint8Array, Uint8Array> {
+  const { encrypt, sign } = options;
+  const header = {
+    ...options.header,
+    flags: options.header.flags | (encrypt !== undefined ? FLAG_ENCRYPTED : 0) | (sign !== undefined ? FLAG_SIGNED : 0),
+  };
+  if (encrypt === undefined && sign === undefined) return prepend(serializePayload(header, new Uint8Array(0)));
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  return new TransformStream({
+    transform(chunk) {
+      chunks.push(chunk);
+      length += chunk.length;
+    },
+    async flush(controller) {
+      let body = concatChunks(chunks, length);
+      if (encrypt !== undefined) body = await encryptBytes(body, encrypt);
+      const bytes = serializePayload(header, body);
+      controller.enqueue(bytes);
+      if (sign !== undefined) controller.enqueue(await signBytes(bytes, sign));
+    },
+  });
+}
+
+function textStream(alphabet: PayloadHeader['alphabet']): TransformStream<Uint8Array, string> {
+  const base85 = createBase85Encoder(alphabet);
+  return new TransformStream({
+    start(controller) {
+      controller.enqueue(VERSION_MARKERS[alphabet]);
+    },
+    transform(chunk, controller) {
+      const text = base85.push(chunk);
+      if (text) controller.enqueue(text);
+    },
+    flush(controller) {
+      const text = base85.end();
+      if (text) controller.enqueue(text);
+    },
+  });
+}
+
+// The compression pipeline of createCompressStream and compressToUrl alike:
+// content bytes through the codec, then the header and the block encoding
+export function payloadStream(options: PayloadStreamOptions): ReadableWritablePair<string, Uint8Array> {
+  const codecStream = compressionStream(options.codec, options.dictionary, options.sizeHint);
+  const readable = codecStream.readable
+    .pipeThrough(headerStream(options))
+    .pipeThrough(textStream(options.header.alphabet));
+  return { writable: codecStream.writable, readable };
+}
+
+export async function encodeContent(content: Uint8Array, options: PayloadStreamOptions): Promise<string> {
+  const reader = streamFrom(content).pipeThrough(payloadStream({ ...options, sizeHint: content.length })).getReader();
+  let payload = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) return payload;
+    payload += value;
+  }
+}
+
+function createCompressStream(options: CompressStreamOptions = {}): ReadableWritablePair<string, Uint8Array> {
+  const { mimeType = 'application/octet-stream', codec = 'deflate-raw', dictionary, alphabet = 'default', metadata } = options;
+  if (!(codec in CODEC_IDS)) {
+    throw new Error('Invalid codec: use "gzip", "deflate-raw" or "brotli"');
+  }
+  if (!(alphabet in ALPHABETS)) {
+    throw new Error(`Unknown alphabet profile: ${alphabet}`);
+  }
+  const dictionaryBytes = dictionary === undefined ? undefined : getDictionary(dictionary);
+  const header = {
+    alphabet,
+    flags: CODEC_IDS[codec] | (dictionaryBytes ? FLAG_DICTIONARY : 0) | (metadata ? FLAG_METADATA : 0),
+    dictionaryId: dictionary,
+  };
+
+  const documentPrefix = encoder.encode(`${mimeType}:`);
+  const input = prepend(metadata ? concatBytes(serializeMetadata(metadata), documentPrefix) : documentPrefix);
+  const readable = input.readable.pipeThrough(payloadStream({ header, codec, dictionary: dictionaryBytes }));
+  return { writable: input.writable, readable };
+}
+
+// Turns payload text into header and body bytes, and notes the layout in
+// `header`. Headerless and legacy payloads get a zero flags byte, which is
+// exactly what they are: gzip, nothing else.
+function payloadBytesStream(header: PayloadHeader): TransformStream<string, Uint8Array> {
+  let start = '';
+  let base85: ReturnType<typeof createBase85Decoder> | undefined;
+  let legacy: string | undefined;
+  // Characters read so far of a payload with an unknown marker, which is only
+  // scanned for invalid characters
+  let unknown: number | undefined;
+
+  const begin = (controller: TransformStreamDefaultController<Uint8Array>) => {
+    const marker = start.charAt(0);
+    if (start.startsWith(LEGACY_PREFIX)) {
+      header.format = 'legacy-base32';
+      legacy = start;
+      return;
+    }
+    if (marker === CHUNK_MARKER) {
+      throw new IncompletePayloadError('Payload is one chunk of a sharded payload; pass all chunks');
+    }
+    if (marker === HEADERLESS_CHAR) {
+      header.format = 'headerless';
+      controller.enqueue(new Uint8Array([0]));
+      base85 = createBase85Decoder('default', 0);
+      controller.enqueue(base85.push(start));
+      return;
+    }
+    const alphabet = alphabetFromMarker(marker);
+    if (!alphabet) {
+      checkCharacters(start);
+      unknown = [...start].length;
+      return;
+    }
+    header.alphabet = alphabet;
+    base85 = createBase85Decoder(alphabet, 1);
+    controller.enqueue(base85.push(start.slice(1)));
+  };
+
+  return new TransformStream({
+    transform(chunk, controller) {
+      if (unknown !== undefined) {
+        checkCharacters(chunk, unknown);
+        unknown += [...chunk].length;
+      } else if (legacy !== undefined) {
+        legacy += chunk;
+      } else if (base85) {
+        controller.enqueue(base85.push(chunk));
+      } else {
+        start += chunk;
+        // The legacy prefix takes two characters to recognize
+        if (start.length >= LEGACY_PREFIX.length) begin(controller);
+      }
+    },
+    flush(controller) {
+      if (!base85 && legacy === undefined && unknown === undefined) {
+        if (!start) throw new CorruptPayloadError('Payload header is missing');
+        begin(controller);
+      }
+      if (unknown !== undefined) {
+        throw new UnsupportedPayloadError(`Unsupported payload version: ${start.charAt(0)}`);
+      }
+      if (legacy !== undefined) {
+        controller.enqueue(new Uint8Array([0]));
+        controller.enqueue(legacyBase32Decode(legacy));
+      } else {
+        controller.enqueue(base85!.end());
+      }
+    },
+  });
+}
+
+// Reads the header bytes, then feeds the body to the codec named in them. The
+// signature of a signed payload is held back, and checked when `verify` is given.
+// Checking it and decrypting need the whole body, so the body is held back too.
+function bodyStream(header: PayloadHeader, options: ContentStreamOptions): TransformStream<Uint8Array, Uint8Array> {
+  const { verify, decrypt } = options;
+  let pending: Uint8Array = new Uint8Array(0);
+  let writer: WritableStreamDefaultWriter<Uint8Array> | undefined;
+  let pump: Promise<void> | undefined;
+  let trailer = 0;
+  let headerLength = 0;
+  // Header and body bytes, kept whole for the signature check or decryption
+  let held: Uint8Array[] | undefined;
+  let heldLength = 0;
+
+  const open = (bytes: Uint8Array, controller: TransformStreamDefaultController<Uint8Array>) => {
+    const fields = readHeader(bytes, false);
+    if (!fields) return false;
+    const { length, ...rest } = fields;
+    Object.assign(header, rest);
+    options.onHeader?.(header);
+    const { flags, dictionaryId } = header;
+    if (verify !== undefined && !(flags & FLAG_SIGNED)) throw new SignatureError('Payload is not signed');
+    if (flags & FLAG_ENCRYPTED && decrypt === undefined) throw new DecryptionError('Payload is encrypted; pass the key or passphrase as decrypt');
+    const codecStream: ByteTransform = decompressionStream(
+      codecFromId(flags & FLAG_CODEC_MASK),
+      dictionaryId === undefined ? undefined : getDictionary(dictionaryId),
+      options.maxOutputBytes,
+    );
+    writer = codecStream.writable.getWriter();
+    pump = codecStream.readable.pipeTo(new WritableStream({ write: chunk => controller.enqueue(chunk) }));
+    // A codec that fails may leave the pending write unsettled, so the error goes
+    // straight to the output
+    pump.catch(error => controller.error(asCorruptPayloadError(error)));
+    trailer = flags & FLAG_SIGNED ? SIGNATURE_BYTES : 0;
+    headerLength = length;
+    if (verify !== undefined || flags & FLAG_ENCRYPTED) held = [];
+    return true;
+  };
+
+  const write = (bytes: Uint8Array) => writer!.write(bytes).catch(error => {
+    throw asCorruptPayloadError(error);
+  });
+
+  return new TransformStream({
+    async transform(chunk, controller) {
+      let bytes = concatBytes(pending, chunk);
+      if (!writer) {
+        if (!open(bytes, controller)) {
+          pending = bytes;
+          return;
+        }
+        if (!held) bytes = bytes.subarray(headerLength);
+      }
+      const keep = Math.min(trailer, bytes.length);
+      pending = bytes.slice(bytes.length - keep);
+      const body = bytes.subarray(0, bytes.length - keep);
+      if (held) {
+        held.push(body);
+        heldLength += body.length;
+      } else if (body.length) {
+        await write(body);
+      }
+    },
+    async flush() {
+      if (!writer) throw new CorruptPayloadError(pending.length ? 'Payload header is truncated' : 'Payload header is missing');
+      if (pending.length < trailer) throw new CorruptPayloadError('Payload signature is truncated');
+      if (trailer) header.signature = pending;
+      if (held) {
+        const signedBytes = concatChunks(held, heldLength);
+        if (verify !== undefined && !await verifyBytes(signedBytes, pending, verify)) {
+          throw new SignatureError('Payload signature is invalid');
+        }
+        let body = signedBytes.subarray(headerLength);
+        if (header.flags & FLAG_ENCRYPTED) body = await decryptBytes(body, decrypt!);
+        await write(body);
+      }
+      try {
+        await writer.close();
+        await pump;
+      } catch (error) {
+        throw asCorruptPayloadError(error);
+      }
+    },
+  });
+}
+
+// The decompression pipeline of createDecompressStream and decompressFromUrl
+// alike: payload text in, content bytes out, held to the output limits
+export function contentStream(options: ContentStreamOptions = {}): ReadableWritablePair<Uint8Array, string> {
+  const header: PayloadHeader = { format: 'v1', alphabet: 'default', flags: 0 };
+  const input = payloadBytesStream(header);
+  const readable = input.readable
+    .pipeThrough(bodyStream(header, options))
+    .pipeThrough(limitStream(options));
+  return { writable: input.writable, readable };
+}
+
+export async function decodeContent(payload: string, options: Omit<ContentStreamOptions, 'onHeader'> = {}): Promise<{ header: PayloadHeader; content: Uint8Array }> {
+  let header: PayloadHeader | undefined;
+  const source = new ReadableStream<string>({
+    start(controller) {
+      controller.enqueue(payload);
+      controller.close();
+    },
+  });
+  const content = await readAll(source.pipeThrough(contentStream({ ...options, onHeader: value => (header = value) })));
+  return { header: header!, content };
+}
+
+interface Deferred<T> {
+  promise: Promise<T>;
+  resolve(value: T): void;
+  reject(error: unknown): void;
+}
+
+function deferred<T>(): Deferred<T> {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  // Callers that only read the data should not see an unhandled rejection
+  promise.catch(() => {});
+  return { promise, resolve, reject };
+}
+
+function createDecompressStream(options: Pick<DecompressOptions, 'maxOutputBytes' | 'timeoutMs' | 'signal' | 'allowExpired'> = {}): DecompressStream {
+  const mimeType = deferred<string>();
+  const metadata = deferred<PayloadMetadata | undefined>();
+  let flags = 0;
+
+  // Holds back the start of the content until the metadata block, when the flags
+  // announce one, and the MIME type have been read
+  let head: Uint8Array | undefined = new Uint8Array(0);
+  let metadataRead = false;
+  const splitHead = new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      if (!head) {
+        controller.enqueue(chunk);
+        return;
+      }
+      let bytes = concatBytes(head, chunk);
+      if (!metadataRead) {
+        if (flags & FLAG_METADATA) {
+          const end = metadataEnd(bytes);
+          if (end === undefined) {
+            head = bytes;
+            return;
+          }
+          const block = readMetadata(bytes).metadata;
+          checkExpiry(block, options.allowExpired);
+          metadata.resolve(block);
+          bytes = bytes.subarray(end);
+        } else {
+          metadata.resolve(undefined);
+        }
+        metadataRead = true;
+      }
+      // Find the colon byte (ASCII 58) to separate MIME type and data
+      const colonIndex = bytes.indexOf(58);
+      if (colonIndex === -1) {
+        head = bytes;
+        return;
+      }
+      head = undefined;
+      mimeType.resolve(decoder.decode(bytes.subarray(0, colonIndex)));
+      if (colonIndex + 1 < bytes.length) controller.enqueue(bytes.subarray(colonIndex + 1));
+    },
+    flush() {
+      if (head && !metadataRead && flags & FLAG_METADATA) throw new CorruptPayloadError('Metadata is truncated');
+      if (head) throw new MissingMimeTypeError();
+    },
+  });
+
+  const input = contentStream({
+    ...options,
+    onHeader: header => {
+      if (header.flags & FLAG_ENCRYPTED) throw new PayloadTypeError('Encrypted payloads cannot be streamed; use decompressFromUrl');
+      if (header.flags & FLAG_BUNDLE) throw new PayloadTypeError('Payload is a bundle; use decompressBundle');
+      if (header.base) throw new PayloadTypeError('Delta payloads cannot be streamed; use decompressFromUrl');
+      if (header.flags & FLAG_TEMPLATE) throw new PayloadTypeError('Template payloads cannot be streamed; use decompressFromUrl');
+      flags = header.flags;
+    },
+  });
+  const reader = input.readable.pipeThrough(splitHead).getReader();
+  // Pulls through the pipeline so that a failure in any stage also rejects the promises
+  const readable = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) controller.close();
+        else controller.enqueue(value);
+      } catch (error) {
+        mimeType.reject(error);
+        metadata.reject(error);
+        throw error;
+      }
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+  return { writable: input.writable, readable, mimeType: mimeType.promise, metadata: metadata.promise };
+}
+
+export { createCompressStream, createDecompressStream, CompressStreamOptions, DecompressStream };
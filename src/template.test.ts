@@ -0,0 +1,75 @@
+import { compressTemplate, compressToUrl, createDecompressStream, createRenderHandler, decompressFromUrl, decompressFromUrlSync, PayloadTypeError, REDIRECT_TEMPLATE_ID, registerTemplate, renderTemplate, UnsupportedPayloadError } from './index';
+
+describe('template payloads', () => {
+    const fields = {
+        redirectUrl: 'https://example.com/articles/2026/10/a-long-article-slug?utm_source=share',
+        title: 'A long article',
+        description: 'What the article is about, in a sentence or two.',
+        image: 'https://cdn.example.com/images/2026/10/a-long-article-slug/cover-1200x630.jpg?v=3',
+        url: 'https://example.com/articles/2026/10/a-long-article-slug',
+        includeJsonLd: true,
+    };
+
+    // Test 1: Round trip through the redirect template
+    it('expands the redirect template on decompression', async () => {
+        const html = renderTemplate(REDIRECT_TEMPLATE_ID, fields);
+        expect(html).toContain(`<meta http-equiv="refresh" content="1;url=${fields.redirectUrl}">`);
+        expect(html).toContain(`<meta property="og:image" content="${fields.image}">`);
+        expect(html).toContain('"name": "A long article"');
+
+        const { payload } = await compressTemplate(REDIRECT_TEMPLATE_ID, fields);
+        const result = await decompressFromUrl(payload);
+        expect(result.data).toBe(html);
+        expect(result.mimeType).toBe('text/html');
+        expect(result.template).toEqual({ id: REDIRECT_TEMPLATE_ID, fields: { ...fields, includeJsonLd: '1' } });
+        const deflated = await compressTemplate(REDIRECT_TEMPLATE_ID, fields, { codec: 'deflate-raw' });
+        expect(decompressFromUrlSync(deflated.payload).data).toBe(html);
+    });
+
+    // Test 2: Only the fields travel
+    it('produces a much shorter payload than the full document', async () => {
+        const template = await compressTemplate(REDIRECT_TEMPLATE_ID, fields);
+        const full = await compressToUrl(renderTemplate(REDIRECT_TEMPLATE_ID, fields));
+        expect(template.size).toBeLessThan(full.size * 0.7);
+    });
+
+    // Test 3: Field values are escaped
+    it('escapes field values in HTML and JSON-LD', () => {
+        const html = renderTemplate(REDIRECT_TEMPLATE_ID, { redirectUrl: 'https://x.example/"><script>', title: '</script><b>"hi"</b>', includeJsonLd: true });
+        expect(html).not.toContain('<script>');
+        expect(html).not.toContain('<b>');
+        expect(html).toContain('<title>&lt;/script&gt;&lt;b&gt;&quot;hi&quot;&lt;/b&gt;</title>');
+        expect(html).toContain('"name": "\\u003c/script>\\u003cb>\\"hi\\"\\u003c/b>"');
+        expect(renderTemplate(REDIRECT_TEMPLATE_ID, { redirectUrl: 'https://x.example/', includeJsonLd: true })).not.toContain('ld+json');
+    });
+
+    // Test 4: Custom templates, metadata and the render handler
+    it('registers custom templates', async () => {
+        registerTemplate(200, { fields: ['name'], mimeType: 'text/plain', render: ({ name }) => `Hello, ${name}!` });
+        expect(() => registerTemplate(200, { fields: ['name'], render: () => '' })).toThrow('Template id 200 is already registered');
+        expect(() => registerTemplate(0, { fields: ['name'], render: () => '' })).toThrow('Template id must be an integer between 1 and 255');
+        expect(() => registerTemplate(201, { fields: ['a', 'a'], render: () => '' })).toThrow('Template fields must be a non-empty list of unique names');
+
+        const { payload } = await compressTemplate(200, { name: 'Ada' }, { metadata: { title: 'Greeting' } });
+        const result = await decompressFromUrl(payload);
+        expect(result).toEqual({ data: 'Hello, Ada!', mimeType: 'text/plain', metadata: { title: 'Greeting' }, template: { id: 200, fields: { name: 'Ada' } } });
+
+        const response = await createRenderHandler()(new Request(`https://pages.example.com/u/${encodeURIComponent(payload)}`));
+        expect(response.headers.get('Content-Type')).toBe('text/plain; charset=utf-8');
+        expect(await response.text()).toBe('Hello, Ada!');
+    });
+
+    // Test 5: Errors
+    it('rejects unknown templates and fields', async () => {
+        await expect(compressTemplate(250, {})).rejects.toThrow(UnsupportedPayloadError);
+        await expect(compressTemplate(REDIRECT_TEMPLATE_ID, { color: 'red' })).rejects.toThrow('Unknown field "color" for template 1');
+        await expect(compressTemplate(REDIRECT_TEMPLATE_ID, { title: 3 as any })).rejects.toThrow('Invalid template field "title"');
+
+        const { payload } = await compressTemplate(REDIRECT_TEMPLATE_ID, fields);
+        const stream = createDecompressStream();
+        const writer = stream.writable.getWriter();
+        writer.write(payload).catch(() => {});
+        writer.close().catch(() => {});
+        await expect(new Response(stream.readable).text()).rejects.toThrow(PayloadTypeError);
+    });
+});
@@ -0,0 +1,165 @@
+import { CorruptPayloadError, UnsupportedPayloadError } from './errors';
+import type { CompressOptions } from './types';
+import { readVarint, writeVarint } from './varint';
+
+// Templates are referenced by a one-byte id in the content, so like preset
+// dictionaries they must never change once payloads using them have been shared.
+// Register a new id instead of editing an existing template.
+
+// Field values as passed to compressTemplate. Missing fields are empty, and
+// booleans become '1' or ''.
+type TemplateFields = Record<string, string | boolean | undefined>;
+
+interface TemplateDefinition {
+  // Stored in this order, so the payload needs no field names
+  fields: string[];
+  mimeType?: string;
+  render: (fields: Record<string, string>) => string;
+}
+
+type TemplateOptions = Pick<CompressOptions, 'maxSize' | 'codec' | 'dictionary' | 'alphabet' | 'metadata' | 'encrypt' | 'sign' | 'shard' | 'shareUrl'>;
+
+// Which template a decompressed document was expanded from, and with what
+interface TemplateReference {
+  id: number;
+  fields: Record<string, string>;
+}
+
+export const REDIRECT_TEMPLATE_ID = 1;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+// A JSON string that cannot close the script element it sits in
+function jsonString(value: string): string {
+  return JSON.stringify(value).replace(/</g, '\\u003c');
+}
+
+// The redirect card made by the example editor: social metadata, optional JSON-LD,
+// and a refresh to redirectUrl after a second
+function renderRedirect(fields: Record<string, string>): string {
+  const [redirectUrl, title, description, image, url] = [fields.redirectUrl, fields.title, fields.description, fields.image, fields.url].map(escapeHtml);
+  const body = image ? `<div class="container">
+    <a href="${redirectUrl}"><img src="${image}" alt="${title}"></a>
+  </div>` : `<a href="${redirectUrl}">${title}</a>`;
+  const jsonLd = `<script type="application/ld+json">
+  {
+    "@context": "http://schema.org",
+    "@type": "WebPage",
+    "name": ${jsonString(fields.title)},
+    "description": ${jsonString(fields.description)},
+    "image": ${jsonString(fields.image)},
+    "url": ${jsonString(fields.url)}
+  }
+</script>`;
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="refresh" content="1;url=${redirectUrl}">
+  ${title ? `<title>${title}</title>` : ''}
+  ${title ? `<meta property="og:title" content="${title}">` : ''}
+  ${title ? `<meta name="twitter:title" content="${title}">` : ''}
+  ${description ? `<meta property="og:description" content="${description}">` : ''}
+  ${description ? `<meta name="twitter:description" content="${description}">` : ''}
+  ${image ? `<meta property="og:image" content="${image}">` : ''}
+  ${image ? `<meta name="twitter:image" content="${image}">` : ''}
+  ${url ? `<meta property="og:url" content="${url}">` : ''}
+  <meta property="og:type" content="website">
+  <meta name="twitter:card" content="summary_large_image">
+  ${fields.includeJsonLd && title ? jsonLd : ''}
+  <style>
+  .container {
+    display: flex;
+    justify-content: center;
+    align-items: center;
+    height: 100vh;
+  }
+  </style>
+</head>
+<body>${body}</body>
+</html>`;
+}
+
+const templates = new Map<number, TemplateDefinition>([
+  [REDIRECT_TEMPLATE_ID, { fields: ['redirectUrl', 'title', 'description', 'image', 'url', 'includeJsonLd'], render: renderRedirect }],
+]);
+
+function registerTemplate(id: number, template: TemplateDefinition): void {
+  if (!Number.isInteger(id) || id < 1 || id > 255) {
+    throw new Error('Template id must be an integer between 1 and 255');
+  }
+  if (templates.has(id)) {
+    throw new Error(`Template id ${id} is already registered`);
+  }
+  if (!template.fields.length || new Set(template.fields).size !== template.fields.length) {
+    throw new Error('Template fields must be a non-empty list of unique names');
+  }
+  templates.set(id, { ...template, fields: [...template.fields] });
+}
+
+function getTemplate(id: number): TemplateDefinition {
+  const template = templates.get(id);
+  if (!template) throw new UnsupportedPayloadError(`Unknown template id: ${id}`);
+  return template;
+}
+
+function normalizeFields(id: number, template: TemplateDefinition, fields: TemplateFields): Record<string, string> {
+  const unknown = Object.keys(fields).find(name => !template.fields.includes(name));
+  if (unknown !== undefined) throw new Error(`Unknown field "${unknown}" for template ${id}`);
+  const values: Record<string, string> = {};
+  for (const name of template.fields) {
+    const value = fields[name] ?? '';
+    if (typeof value !== 'string' && typeof value !== 'boolean') throw new Error(`Invalid template field "${name}": expected a string or boolean`);
+    values[name] = value === true ? '1' : value === false ? '' : value;
+  }
+  return values;
+}
+
+// Expands a registered template into its document, as decompression does
+function renderTemplate(id: number, fields: TemplateFields = {}): string {
+  const template = getTemplate(id);
+  return template.render(normalizeFields(id, template, fields));
+}
+
+// Layout: the template id byte, the field count, then each value in the
+// template's field order, preceded by a varint length
+export function serializeTemplate(id: number, fields: TemplateFields): { content: Uint8Array; mimeType: string } {
+  const template = getTemplate(id);
+  const values = normalizeFields(id, template, fields);
+  const out = [id];
+  writeVarint(out, template.fields.length);
+  for (const name of template.fields) {
+    const bytes = encoder.encode(values[name]);
+    writeVarint(out, bytes.length);
+    for (const byte of bytes) out.push(byte);
+  }
+  return { content: new Uint8Array(out), mimeType: template.mimeType ?? 'text/html' };
+}
+
+// Reads a template record and renders the document it stands for
+export function expandTemplate(bytes: Uint8Array): { mimeType: string; data: Uint8Array; template: TemplateReference } {
+  if (!bytes.length) throw new CorruptPayloadError('Template record is truncated');
+  const id = bytes[0];
+  const definition = getTemplate(id);
+  const cursor = { offset: 1 };
+  const count = readVarint(bytes, cursor, 'Template record');
+  if (count !== definition.fields.length) {
+    throw new CorruptPayloadError(`Template ${id} has ${definition.fields.length} fields, payload has ${count}`);
+  }
+  const fields: Record<string, string> = {};
+  for (const name of definition.fields) {
+    const length = readVarint(bytes, cursor, 'Template record');
+    if (cursor.offset + length > bytes.length) throw new CorruptPayloadError('Template record is truncated');
+    fields[name] = decoder.decode(bytes.subarray(cursor.offset, cursor.offset + length));
+    cursor.offset += length;
+  }
+  const data = encoder.encode(definition.render(fields));
+  return { mimeType: definition.mimeType ?? 'text/html', data, template: { id, fields } };
+}
+
+export { registerTemplate, renderTemplate, TemplateDefinition, TemplateFields, TemplateOptions, TemplateReference };
@@ -0,0 +1,120 @@
+// Tag-level HTML tokenizing shared by the minifier, the head editor and the script
+// stripper. All three read tags, comments and raw text the way browsers do, so
+// they agree with each other and with the browser on where each one ends.
+
+interface Attribute {
+  // Lowercased, as browsers read it
+  name: string;
+  // As written, without quotes and with references left alone
+  value: string;
+  start: number;
+  nameEnd: number;
+  // Where the value sits, quotes included. Both are the end of the attribute
+  // when it has no value.
+  valueStart: number;
+  end: number;
+}
+
+interface Tag {
+  // Lowercased, as browsers read it
+  name: string;
+  closing: boolean;
+  attributes: Attribute[];
+  selfClosing: boolean;
+  start: number;
+  // End of the tag name as written
+  nameEnd: number;
+  end: number;
+}
+
+const TAG_OPEN = /<(\/?)([a-zA-Z][^\t\n\f\r \/>]*)/y;
+// A comment ends at the first --> or --!>, or right away as <!--> or <!--->
+const COMMENT = /<!--(?:-?>|[\s\S]*?--!?>)/y;
+
+function isSpace(char: string): boolean {
+  return char === ' ' || char === '\n' || char === '\t' || char === '\f' || char === '\r';
+}
+
+// Reads a tag the way the HTML tokenizer does: a quote only opens a value right
+// after '=', and a tag cut off by the end of the document is dropped. Returns
+// undefined when the '<' at start does not open a tag.
+export function readTag(html: string, start: number): Tag | undefined {
+  TAG_OPEN.lastIndex = start;
+  const opening = TAG_OPEN.exec(html);
+  if (!opening) return undefined;
+  const nameEnd = TAG_OPEN.lastIndex;
+  const attributes: Attribute[] = [];
+  let selfClosing = false;
+  let i = nameEnd;
+  while (i < html.length) {
+    const char = html[i];
+    if (isSpace(char)) {
+      i++;
+      continue;
+    }
+    if (char === '>') {
+      return { name: opening[2].toLowerCase(), closing: !!opening[1], attributes, selfClosing, start, nameEnd, end: i + 1 };
+    }
+    if (char === '/') {
+      selfClosing = html[i + 1] === '>';
+      i++;
+      continue;
+    }
+    // A name can start with '=' and holds anything up to whitespace, '/', '>' or '='
+    const attributeStart = i;
+    i++;
+    while (i < html.length && !isSpace(html[i]) && html[i] !== '/' && html[i] !== '>' && html[i] !== '=') i++;
+    const attributeNameEnd = i;
+    let value = '';
+    let valueStart = i;
+    let j = i;
+    while (j < html.length && isSpace(html[j])) j++;
+    if (html[j] === '=') {
+      j++;
+      while (j < html.length && isSpace(html[j])) j++;
+      valueStart = j;
+      const quote = html[j];
+      if (quote === '"' || quote === "'") {
+        const close = html.indexOf(quote, j + 1);
+        if (close === -1) return undefined;
+        value = html.slice(j + 1, close);
+        i = close + 1;
+      } else {
+        i = j;
+        while (i < html.length && !isSpace(html[i]) && html[i] !== '>') i++;
+        value = html.slice(j, i);
+      }
+    }
+    attributes.push({ name: html.slice(attributeStart, attributeNameEnd).toLowerCase(), value, start: attributeStart, nameEnd: attributeNameEnd, valueStart, end: i });
+  }
+  return undefined;
+}
+
+// Where the comment, doctype or processing instruction at start ends, or
+// undefined when none starts there. Anything but a comment ends at the first '>'.
+export function declarationEnd(html: string, start: number): number | undefined {
+  if (html.startsWith('<!--', start)) {
+    COMMENT.lastIndex = start;
+    return COMMENT.test(html) ? COMMENT.lastIndex : html.length;
+  }
+  if (html.startsWith('<!', start) || html.startsWith('<?', start)) {
+    const end = html.indexOf('>', start);
+    return end === -1 ? html.length : end + 1;
+  }
+  return undefined;
+}
+
+// Where the content of a raw text or script element ends: at its first closing
+// tag, whatever comes before it. plaintext never ends.
+export function rawTextEnd(html: string, name: string, from: number): number {
+  if (name === 'plaintext') return html.length;
+  const closing = new RegExp(`</${name}[\\t\\n\\f\\r />]`, 'i').exec(html.slice(from));
+  return closing ? from + closing.index : html.length;
+}
+
+// End of the element whose content ends at contentEnd, after its closing tag
+export function closingTagEnd(html: string, contentEnd: number): number {
+  return readTag(html, contentEnd)?.end ?? html.length;
+}
+
+export { Attribute, Tag };
@@ -0,0 +1,82 @@
+import type { Codec } from './codecs';
+import type { BaseDocument } from './delta';
+import type { AlphabetProfile } from './encoding';
+import type { EncryptionKey } from './encryption';
+import type { FitStep } from './fit';
+import type { MetadataOptions, PayloadMetadata } from './metadata';
+import type { ShareUrlOptions } from './shareUrl';
+import type { SigningKey } from './signature';
+import type { TemplateReference } from './template';
+
+interface CompressOptions {
+  maxSize?: number;
+  inputType?: 'string' | 'binary';
+  mimeType?: string;
+  /** @deprecated Collapses whitespace everywhere, including `<pre>` and scripts. Use `minify` instead. */
+  normalizeWhitespace?: boolean;
+  minify?: boolean;
+  codec?: Codec | 'auto';
+  dictionary?: number | false;
+  alphabet?: AlphabetProfile;
+  // Title, charset, creation and expiry times and custom fields stored with the content
+  metadata?: MetadataOptions;
+  // Encode only the difference to this document, or to the base registered under this id
+  base?: number | BaseDocument;
+  // Encrypts with AES-GCM: a passphrase, raw key bytes, or true for a random key
+  encrypt?: EncryptionKey | true;
+  // Appends an HMAC-SHA-256 signature made with this key
+  sign?: SigningKey;
+  // Split payloads over maxSize into several chunks instead of throwing
+  shard?: boolean;
+  // Try other codecs, the HTML dictionary, minification and dropping comments
+  // until the payload fits maxSize, instead of throwing right away
+  fit?: boolean;
+  // Measure maxSize against the final share URL instead of the bare payload
+  shareUrl?: ShareUrlOptions & { base: string | URL };
+}
+
+interface CompressResult {
+  payload: string;
+  size: number;
+  codec: Codec;
+  dictionary?: number;
+  // Raw or random encryption key, base64url-encoded
+  encryptionKey?: string;
+  minifySavedBytes?: number;
+  // Strategies applied by `fit`, with the size after each
+  fitReport?: FitStep[];
+  chunks?: string[];
+  url?: string;
+  chunkUrls?: string[];
+}
+
+interface DecompressOptions {
+  outputType?: 'string' | 'binary' | 'auto';
+  // Rejects payloads that are unsigned or not signed with this key
+  verify?: SigningKey;
+  // Passphrase, encryptionKey string or raw key bytes of an encrypted payload
+  decrypt?: EncryptionKey;
+  // Stops decompression once the output grows past this many bytes
+  maxOutputBytes?: number;
+  // Stops decompression after this long, or when the signal aborts
+  timeoutMs?: number;
+  signal?: AbortSignal;
+  // Decompresses payloads whose metadata expiry has passed instead of throwing
+  allowExpired?: boolean;
+  // Base document of a delta payload, when it is not registered
+  base?: BaseDocument;
+}
+
+interface DecompressResult {
+  data: string | Uint8Array;
+  mimeType: string;
+  metadata?: PayloadMetadata;
+  // Set when the document was expanded from a template payload
+  template?: TemplateReference;
+}
+
+// The synchronous API has no Web Crypto, so no signing, encryption or time limits
+type SyncCompressOptions = Omit<CompressOptions, 'encrypt' | 'sign' | 'fit'>;
+type SyncDecompressOptions = Pick<DecompressOptions, 'outputType' | 'maxOutputBytes' | 'allowExpired' | 'base'>;
+
+export { CompressOptions, CompressResult, DecompressOptions, DecompressResult, SyncCompressOptions, SyncDecompressOptions };
@@ -0,0 +1,24 @@
+import { CorruptPayloadError } from './errors';
+
+// LEB128 unsigned integers, 7 bits per byte with the high bit set on all but the last
+
+export function writeVarint(out: number[], value: number) {
+  while (value >= 0x80) {
+    out.push((value & 0x7f) | 0x80);
+    value = Math.floor(value / 0x80);
+  }
+  out.push(value);
+}
+
+// `what` names the structure being read in the truncation error
+export function readVarint(bytes: Uint8Array, cursor: { offset: number }, what: string): number {
+  let value = 0;
+  let shift = 0;
+  while (true) {
+    if (cursor.offset >= bytes.length) throw new CorruptPayloadError(`${what} is truncated`);
+    const byte = bytes[cursor.offset++];
+    value += (byte & 0x7f) * 2 ** shift;
+    if (byte < 0x80) return value;
+    shift += 7;
+  }
+}